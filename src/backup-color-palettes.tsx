@@ -0,0 +1,79 @@
+import { Action, ActionPanel, Form, Icon, showInFinder, showToast, Toast } from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { useCollections } from "./hooks/useCollections";
+import { usePalettes } from "./hooks/usePalettes";
+import { createBackup } from "./utils/libraryBackup";
+import { STORAGE_KEYS } from "./utils/paletteStorage";
+
+/**
+ * Library Backup Command
+ *
+ * Writes every stored palette, the global keyword list and the collections into a single versioned
+ * JSON file with a checksum, so the library can be restored after losing local storage.
+ */
+export default function Command() {
+  const { palettes, isLoading: isLoadingPalettes } = usePalettes();
+  const { value: keywords, isLoading: isLoadingKeywords } = useLocalStorage<string[]>(STORAGE_KEYS.keywords, []);
+  const { collections, isLoading: isLoadingCollections } = useCollections();
+
+  /**
+   * Writes the backup file into the selected folder.
+   */
+  const handleSubmit = async (values: { directory: string[] }) => {
+    const directory = values.directory?.[0];
+    if (!directory) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Please choose a destination folder",
+      });
+      return;
+    }
+
+    const filePath = join(directory, `color-palettes-backup-${new Date().toISOString().slice(0, 10)}.json`);
+    try {
+      await writeFile(filePath, createBackup(palettes ?? [], keywords ?? [], collections ?? []), "utf8");
+      showToast({
+        style: Toast.Style.Success,
+        title: "Backup saved!",
+        message: filePath,
+        primaryAction: { title: "Show in Finder", onAction: () => showInFinder(filePath) },
+      });
+    } catch (error) {
+      console.error("Error writing backup:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to write the backup file",
+      });
+    }
+  };
+
+  const paletteCount = palettes?.length ?? 0;
+  const keywordCount = keywords?.length ?? 0;
+
+  return (
+    <Form
+      isLoading={isLoadingPalettes || isLoadingKeywords || isLoadingCollections}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Backup" icon={Icon.SaveDocument} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={`Back up ${paletteCount} color palette${paletteCount === 1 ? "" : "s"} and ${keywordCount} keyword${keywordCount === 1 ? "" : "s"}`}
+      />
+      <Form.FilePicker
+        id="directory"
+        title="Destination Folder"
+        info="The backup is saved as color-palettes-backup-<date>.json. Use Restore Library to load it back."
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+      />
+    </Form>
+  );
+}
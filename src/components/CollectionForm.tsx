@@ -0,0 +1,117 @@
+/**
+ * CollectionForm Component
+ *
+ * Form for creating a collection or renaming an existing one and changing its
+ * icon and color.
+ */
+
+import { Action, ActionPanel, Color, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { useForm } from "@raycast/utils";
+import { useCollections } from "../hooks/useCollections";
+import { PaletteCollection } from "../types";
+import { COLLECTION_COLORS, COLLECTION_ICONS, getCollectionIcon } from "../utils/collections";
+
+/**
+ * Props interface for the CollectionForm component.
+ */
+interface CollectionFormProps {
+  /** Collection to edit; omit to create a new one */
+  collection?: PaletteCollection;
+}
+
+/**
+ * Form values of the collection form.
+ */
+interface CollectionFormValues {
+  name: string;
+  icon: string;
+  color: string;
+}
+
+/**
+ * Renders the create/edit form of a collection. Pops back after saving.
+ *
+ * @param props - Component properties
+ */
+export function CollectionForm({ collection }: CollectionFormProps) {
+  const { pop } = useNavigation();
+  const { collections, saveCollection } = useCollections();
+
+  const { handleSubmit, itemProps, values } = useForm<CollectionFormValues>({
+    initialValues: {
+      name: collection?.name ?? "",
+      icon: collection?.icon ?? "Folder",
+      color: collection?.color ?? "",
+    },
+    validation: {
+      name: (value) => {
+        const name = value?.trim();
+        if (!name) return "The name is required";
+        const taken = (collections ?? []).some(
+          (item) => item.id !== collection?.id && item.name.toLowerCase() === name.toLowerCase(),
+        );
+        if (taken) return "A collection with this name already exists";
+      },
+    },
+    onSubmit: async (formValues) => {
+      try {
+        const saved = await saveCollection(
+          { name: formValues.name, icon: formValues.icon || undefined, color: formValues.color || undefined },
+          collection?.id,
+        );
+        showToast({
+          style: Toast.Style.Success,
+          title: collection ? "Collection Updated" : "Collection Created",
+          message: saved.name,
+        });
+        pop();
+      } catch (error) {
+        console.error("Error saving collection:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "Failed to save the collection",
+        });
+      }
+    },
+  });
+
+  return (
+    <Form
+      navigationTitle={collection ? `Edit ${collection.name}` : "Create Collection"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={collection ? "Save Collection" : "Create Collection"}
+            icon={Icon.Folder}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField title="Name" placeholder="e.g. Client Website" {...itemProps.name} />
+      <Form.Dropdown title="Icon" {...itemProps.icon}>
+        {COLLECTION_ICONS.map(({ name, title }) => (
+          <Form.Dropdown.Item
+            key={name}
+            value={name}
+            title={title}
+            // Preview each icon with the currently selected color
+            icon={getCollectionIcon({ id: "", name: "", icon: name, color: values.color, createdAt: "" })}
+          />
+        ))}
+      </Form.Dropdown>
+      <Form.Dropdown title="Color" {...itemProps.color}>
+        <Form.Dropdown.Item value="" title="Default" icon={Icon.Circle} />
+        {COLLECTION_COLORS.map(({ name, title }) => (
+          <Form.Dropdown.Item
+            key={name}
+            value={name}
+            title={title}
+            icon={{ source: Icon.CircleFilled, tintColor: Color[name] }}
+          />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
@@ -2,12 +2,15 @@
  * ColorFieldsSection Component
  *
  * Renders dynamic color input fields with intelligent focus management and validation.
- * Uses a count-based approach for cleaner state management.
+ * Uses a count-based approach for cleaner state management. Each color can optionally
+ * carry a custom name, a semantic role and a note.
  */
 
 import { Form } from "@raycast/api";
 import { useEffect, useRef } from "react";
 import { PaletteFormFields } from "../types";
+import { isColorField } from "../utils/formHelpers";
+import { COLOR_ROLES } from "../utils/paletteColors";
 
 /**
  * Props interface for the ColorFieldsSection component.
@@ -23,6 +26,8 @@ interface ColorFieldsSectionProps {
   currentFocusedField: string | null;
   /** Function to create focus handlers for real-time tracking */
   createFocusHandlers: (fieldName: string) => { onFocus: () => void; onBlur: () => void };
+  /** Whether to render the name, role and note fields of each color */
+  showColorDetails: boolean;
 }
 
 /**
@@ -36,13 +41,14 @@ export function ColorFieldsSection({
   autoFocusField,
   currentFocusedField,
   createFocusHandlers,
+  showColorDetails,
 }: ColorFieldsSectionProps) {
   // Refs to store references to each color field input
   const fieldRefs = useRef<{ [key: string]: HTMLInputElement | null }>({});
 
   // Effect to handle programmatic focus changes
   useEffect(() => {
-    if (currentFocusedField && currentFocusedField.startsWith("color")) {
+    if (currentFocusedField && isColorField(currentFocusedField)) {
       const fieldElement = fieldRefs.current[currentFocusedField];
       if (fieldElement) {
         fieldElement.focus();
@@ -61,20 +67,51 @@ export function ColorFieldsSection({
         const isRequired = index === 0; // First color field is required
         const focusHandlers = createFocusHandlers(colorKey);
 
-        return (
+        return [
           <Form.TextField
-            key={index}
+            key={colorKey}
             {...(itemProps[colorKey] as any)}
             ref={(el: HTMLInputElement) => {
               fieldRefs.current[colorKey] = el;
             }}
             title={`${index + 1}. Color${isRequired ? "*" : ""}`}
-            placeholder="e.g., #FF5733, rgb(255, 87, 51), or rgba(255, 87, 51, 0.8)"
+            placeholder="e.g., #FF5733, rgb(255 87 51 / 0.8), hsl(11 100% 60%), oklch(68% 0.21 33) or tomato"
+            info={index === 0 ? "Paste a coolors.co palette URL to fill several color fields at once." : undefined}
             autoFocus={shouldFocus}
             onFocus={focusHandlers.onFocus}
             onBlur={focusHandlers.onBlur}
-          />
-        );
+          />,
+          // Optional metadata of the color, hidden by default to keep the form compact
+          ...(showColorDetails
+            ? [
+                <Form.TextField
+                  key={`${colorKey}Name`}
+                  {...itemProps[`${colorKey}Name`]}
+                  title="Name"
+                  placeholder="Defaults to the closest known color name"
+                  {...createFocusHandlers(`${colorKey}Name`)}
+                />,
+                <Form.Dropdown
+                  key={`${colorKey}Role`}
+                  {...itemProps[`${colorKey}Role`]}
+                  title="Role"
+                  {...createFocusHandlers(`${colorKey}Role`)}
+                >
+                  <Form.Dropdown.Item value="" title="No Role" />
+                  {COLOR_ROLES.map(({ role, title }) => (
+                    <Form.Dropdown.Item key={role} value={role} title={title} />
+                  ))}
+                </Form.Dropdown>,
+                <Form.TextField
+                  key={`${colorKey}Note`}
+                  {...itemProps[`${colorKey}Note`]}
+                  title="Note"
+                  placeholder="e.g., Use for large surfaces only"
+                  {...createFocusHandlers(`${colorKey}Note`)}
+                />,
+              ]
+            : []),
+        ];
       })}
     </>
   );
@@ -5,10 +5,11 @@
  * Organizes actions logically for efficient workflow management.
  */
 
-import { Action, ActionPanel } from "@raycast/api";
+import { Action, ActionPanel, Icon, Keyboard } from "@raycast/api";
 import { colorWheel } from "../utils/colorWheel";
 import { convertColor } from "../utils/convertColor";
 import { generateColors } from "../utils/generateColors";
+import { HARMONY_SCHEMES, HarmonyScheme } from "../utils/harmony";
 import { pickColor } from "../utils/pickColor";
 
 /**
@@ -21,12 +22,34 @@ interface ColorPaletteActionsProps {
   addColor: () => void;
   /** Function to remove the last color field */
   removeColor: () => void;
+  /** 1-based index of the effectively focused color field, if any */
+  focusedColorIndex?: number;
+  /** Function to move the focused color one field up (-1) or down (1) */
+  moveColor: (offset: -1 | 1) => void;
+  /** Function to insert an empty color field after the focused one */
+  insertColorAfter: () => void;
+  /** Function to remove the focused color field */
+  removeFocusedColor: () => void;
   /** Function to reset the entire form */
   clearForm: () => void;
   /** Current number of color fields */
   colorFieldCount: number;
   /** Effectively focused color field with ID and value (current or last focused) */
   focusedColor?: { id: number; value: string };
+  /** Function to fill new color fields with a harmony scheme built from the focused color */
+  generateHarmony: (scheme: HarmonyScheme) => void;
+  /** Function to append a 50-950 tint and shade scale of the focused color */
+  generateScale: () => void;
+  /** Whether the form is editing an existing palette in place */
+  isEditing?: boolean;
+  /** Whether the name, role and note fields of each color are visible */
+  showColorDetails: boolean;
+  /** Function to show or hide the name, role and note fields of each color */
+  toggleColorDetails: () => void;
+  /** Keywords suggested from the colors that the palette does not carry yet */
+  suggestedKeywords: string[];
+  /** Function to add every suggested keyword to the palette */
+  addSuggestedKeywords: () => void;
 }
 
 /**
@@ -38,14 +61,25 @@ export function ColorPaletteActions({
   handleSubmit,
   addColor,
   removeColor,
+  focusedColorIndex,
+  moveColor,
+  insertColorAfter,
+  removeFocusedColor,
   clearForm,
   colorFieldCount,
   focusedColor,
+  generateHarmony,
+  generateScale,
+  isEditing,
+  showColorDetails,
+  toggleColorDetails,
+  suggestedKeywords,
+  addSuggestedKeywords,
 }: ColorPaletteActionsProps) {
   return (
     <ActionPanel>
-      {/* Primary action: Submit form to save palette */}
-      <Action.SubmitForm onSubmit={handleSubmit} />
+      {/* Primary action: Submit form to save palette (or update it in edit mode) */}
+      <Action.SubmitForm title={isEditing ? "Update Palette" : undefined} onSubmit={handleSubmit} />
 
       {/* Color field management actions */}
       <Action title="Add New Color Field" onAction={addColor} shortcut={{ modifiers: ["cmd"], key: "n" }} />
@@ -55,6 +89,59 @@ export function ColorPaletteActions({
         <Action title="Remove Last Color" onAction={removeColor} shortcut={{ modifiers: ["cmd"], key: "backspace" }} />
       )}
 
+      <Action
+        title={showColorDetails ? "Hide Color Details" : "Show Color Details"}
+        icon={Icon.Tag}
+        onAction={toggleColorDetails}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "i" }}
+      />
+
+      {suggestedKeywords.length > 0 && (
+        <Action
+          title="Add Suggested Keywords"
+          icon={Icon.Wand}
+          onAction={addSuggestedKeywords}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+        />
+      )}
+
+      {/* Focused color field actions: reorder, insert and remove anywhere in the palette */}
+      {focusedColorIndex && (
+        <ActionPanel.Section title={`Color ${focusedColorIndex}`}>
+          {focusedColorIndex > 1 && (
+            <Action
+              title="Move Color Earlier"
+              icon={Icon.ArrowUp}
+              onAction={() => moveColor(-1)}
+              shortcut={Keyboard.Shortcut.Common.MoveUp}
+            />
+          )}
+          {focusedColorIndex < colorFieldCount && (
+            <Action
+              title="Move Color Later"
+              icon={Icon.ArrowDown}
+              onAction={() => moveColor(1)}
+              shortcut={Keyboard.Shortcut.Common.MoveDown}
+            />
+          )}
+          <Action
+            title="Insert Color After"
+            icon={Icon.Plus}
+            onAction={insertColorAfter}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "n" }}
+          />
+          {colorFieldCount > 1 && (
+            <Action
+              title="Remove This Color"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={removeFocusedColor}
+              shortcut={Keyboard.Shortcut.Common.Remove}
+            />
+          )}
+        </ActionPanel.Section>
+      )}
+
       {/* External tool integration */}
       <Action title="Pick Color" shortcut={{ modifiers: ["cmd", "shift"], key: "p" }} onAction={pickColor} />
       <Action title="Color Wheel" shortcut={{ modifiers: ["cmd", "shift"], key: "w" }} onAction={colorWheel} />
@@ -63,6 +150,25 @@ export function ColorPaletteActions({
         shortcut={{ modifiers: ["cmd", "shift"], key: "g" }}
         onAction={() => generateColors("ocean sunset")}
       />
+      {focusedColor && (
+        <ActionPanel.Submenu
+          title="Generate Harmony"
+          icon={Icon.Swatch}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+        >
+          {HARMONY_SCHEMES.map(({ scheme, title }) => (
+            <Action key={scheme} title={title} onAction={() => generateHarmony(scheme)} />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+      {focusedColor && (
+        <Action
+          title="Generate Tint & Shade Scale"
+          icon={Icon.Swatch}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+          onAction={generateScale}
+        />
+      )}
       {focusedColor && (
         <Action
           title="Convert Color"
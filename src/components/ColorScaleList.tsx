@@ -0,0 +1,82 @@
+/**
+ * ColorScaleList Component
+ *
+ * Preview of a 50-950 tint and shade scale generated from a palette color.
+ * The scale is generated when the list opens, and can be copied or saved as a
+ * new palette through the save form.
+ */
+
+import { Action, ActionPanel, Icon, LaunchType, List } from "@raycast/api";
+import { useMemo } from "react";
+import SaveColorPalettesCommand from "../save-color-palettes";
+import { PaletteFormFields } from "../types";
+import { generateColorScale } from "../utils/colorScale";
+
+/**
+ * Props interface for the ColorScaleList component.
+ */
+interface ColorScaleListProps {
+  /** Color the scale is generated from, in any supported syntax */
+  baseColor: string;
+  /** Name of the palette the base color comes from */
+  paletteName: string;
+  /** Mode of the palette the base color comes from */
+  mode: "light" | "dark";
+  /** Keywords of the palette the base color comes from */
+  keywords: string[];
+}
+
+/**
+ * Renders the scale steps with copy and save actions.
+ *
+ * @param props - Component properties
+ */
+export function ColorScaleList({ baseColor, paletteName, mode, keywords }: ColorScaleListProps) {
+  /** Scale steps, lightest first (empty if the base color is invalid) */
+  const scale = useMemo(() => generateColorScale(baseColor) ?? [], [baseColor]);
+
+  /** Form values for saving the ramp as a new palette (names are limited to 15 characters) */
+  const scaleFormData: PaletteFormFields = {
+    name: `${paletteName.slice(0, 9)} Scale`,
+    description: `50-950 scale of ${baseColor}`,
+    mode,
+    keywords,
+    ...Object.fromEntries(scale.map((step, index) => [`color${index + 1}`, step.color])),
+  };
+
+  return (
+    <List navigationTitle={`Scale of ${baseColor}`}>
+      <List.EmptyView icon={Icon.Swatch} title="No Scale" description={`${baseColor} is not a valid color`} />
+      {scale.map(({ step, color, isBase }) => (
+        <List.Item
+          key={step}
+          icon={{ source: Icon.CircleFilled, tintColor: color }}
+          title={String(step)}
+          subtitle={color}
+          accessories={isBase ? [{ tag: "Base color" }] : []}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="Save Scale as New Palette"
+                icon={Icon.SaveDocument}
+                target={
+                  <SaveColorPalettesCommand
+                    launchType={LaunchType.UserInitiated}
+                    arguments={{}}
+                    draftValues={scaleFormData}
+                  />
+                }
+              />
+              <Action.CopyToClipboard title="Copy Color" content={color} />
+              <Action.CopyToClipboard
+                title="Copy All Colors"
+                content={scale.map((item) => item.color).join(";")}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
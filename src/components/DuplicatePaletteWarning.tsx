@@ -0,0 +1,94 @@
+/**
+ * DuplicatePaletteWarning Component
+ *
+ * Warning shown when a palette about to be saved duplicates a stored one. The user can
+ * save it anyway, open the existing palette, or merge the new keywords into it.
+ */
+
+import { Action, ActionPanel, Detail, Icon } from "@raycast/api";
+import { StoredPalette } from "../types";
+import { DUPLICATE_KIND_DESCRIPTIONS, PaletteDuplicate } from "../utils/duplicatePalettes";
+import { formatDate } from "../utils/formatDate";
+import { getNormalizedColors } from "../utils/paletteColors";
+
+/**
+ * Props interface for the DuplicatePaletteWarning component.
+ */
+interface DuplicatePaletteWarningProps {
+  /** The palette about to be saved */
+  palette: StoredPalette;
+  /** The stored palette it duplicates */
+  duplicate: PaletteDuplicate;
+  /** Saves the palette as a separate palette */
+  onSaveAnyway: () => void;
+  /** Shows the existing palette instead of saving */
+  onOpenExisting: () => void;
+  /** Adds the keywords of the new palette to the existing one instead of saving */
+  onMergeKeywords: () => void;
+}
+
+/**
+ * Renders a row of color swatches.
+ */
+const createMdSwatches = (palette: StoredPalette) =>
+  getNormalizedColors(palette)
+    .map(
+      (color) =>
+        `<div style="width: 40px; height: 40px; background-color: ${color}; display: inline-block; margin-right: 8px; border-radius: 4px;"></div>`,
+    )
+    .join("");
+
+/**
+ * Creates the markdown comparing both palettes.
+ */
+const createMdWarning = (palette: StoredPalette, { palette: existing, kind, distance }: PaletteDuplicate) => {
+  const newKeywords = palette.keywords.filter((keyword) => !existing.keywords.includes(keyword));
+  return `
+# Possible Duplicate
+
+**${existing.name}** ${DUPLICATE_KIND_DESCRIPTIONS[kind]}${kind === "similar" ? ` (largest ΔE ${distance.toFixed(1)})` : ""}.
+
+### New: ${palette.name}
+${createMdSwatches(palette)}
+
+\`${palette.colors.map((color) => color.value).join("` `")}\`
+
+### Existing: ${existing.name}
+${createMdSwatches(existing)}
+
+\`${existing.colors.map((color) => color.value).join("` `")}\`
+
+_Created ${formatDate(existing.createdAt)}_
+
+---
+
+${newKeywords.length > 0 ? `Merging adds the keywords ${newKeywords.map((keyword) => `\`${keyword}\``).join(", ")} to ${existing.name}.` : `${existing.name} already has every keyword of the new palette.`}
+`;
+};
+
+/**
+ * Renders the duplicate warning with its three choices.
+ *
+ * @param props - Component properties
+ */
+export function DuplicatePaletteWarning({
+  palette,
+  duplicate,
+  onSaveAnyway,
+  onOpenExisting,
+  onMergeKeywords,
+}: DuplicatePaletteWarningProps) {
+  return (
+    <Detail
+      navigationTitle="Possible Duplicate"
+      markdown={createMdWarning(palette, duplicate)}
+      actions={
+        <ActionPanel>
+          <Action title="Save Anyway" icon={Icon.SaveDocument} onAction={onSaveAnyway} />
+          <Action title="Open Existing Palette" icon={Icon.Eye} onAction={onOpenExisting} />
+          <Action title="Merge Keywords into Existing" icon={Icon.Tag} onAction={onMergeKeywords} />
+        </ActionPanel>
+      }
+    />
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * ExportPaletteForm Component
+ *
+ * Form for exporting a stored palette as CSS, SCSS, Tailwind or design-token code.
+ * The generated code can be copied to the clipboard or written to a chosen folder.
+ */
+
+import { Action, ActionPanel, Form, Icon, showInFinder, showToast, Toast } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import { join } from "path";
+import { useState } from "react";
+import { StoredPalette } from "../types";
+import { EXPORT_FORMATS, ExportFormat, exportPalette, toVariableName } from "../utils/exportPalette";
+
+/**
+ * Props interface for the ExportPaletteForm component.
+ */
+interface ExportPaletteFormProps {
+  /** Palette to export */
+  palette: StoredPalette;
+}
+
+/**
+ * Renders the export form with format selection, live preview and destination folder.
+ *
+ * @param props - Component properties
+ */
+export function ExportPaletteForm({ palette }: ExportPaletteFormProps) {
+  /** Currently selected export format */
+  const [format, setFormat] = useState<ExportFormat>("css");
+
+  const content = exportPalette(palette, format);
+  const { extension } = EXPORT_FORMATS.find((item) => item.format === format)!;
+
+  /**
+   * Writes the exported content into the selected folder.
+   */
+  const handleSaveToFile = async (values: { directory: string[] }) => {
+    const directory = values.directory?.[0];
+    if (!directory) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Please choose a destination folder",
+      });
+      return;
+    }
+
+    const filePath = join(directory, `${toVariableName(palette.name)}.${extension}`);
+    try {
+      await writeFile(filePath, content, "utf8");
+      showToast({
+        style: Toast.Style.Success,
+        title: "Exported!",
+        message: filePath,
+        primaryAction: { title: "Show in Finder", onAction: () => showInFinder(filePath) },
+      });
+    } catch (error) {
+      console.error("Error exporting palette:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to write the export file",
+      });
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={`Export ${palette.name}`}
+      actions={
+        <ActionPanel>
+          <Action.CopyToClipboard title="Copy to Clipboard" content={content} />
+          <Action.SubmitForm title="Save to File" icon={Icon.SaveDocument} onSubmit={handleSaveToFile} />
+        </ActionPanel>
+      }
+    >
+      <Form.Dropdown id="format" title="Format" value={format} onChange={(value) => setFormat(value as ExportFormat)}>
+        {EXPORT_FORMATS.map((item) => (
+          <Form.Dropdown.Item key={item.format} value={item.format} title={item.title} />
+        ))}
+      </Form.Dropdown>
+      <Form.FilePicker
+        id="directory"
+        title="Destination Folder"
+        info="Only needed for Save to File. The file is named after the palette."
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+      />
+      <Form.Separator />
+      <Form.Description title="Preview" text={content} />
+    </Form>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * ImportPreviewList Component
+ *
+ * Preview of palettes read from swatch files before they are saved.
+ * Lets the user drop unwanted palettes and commit the rest in one step.
+ */
+
+import { Action, ActionPanel, Icon, List, open, showToast, Toast } from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { useState } from "react";
+import { usePalettes } from "../hooks/usePalettes";
+import { ImportedPalette, StoredPalette } from "../types";
+import { STORAGE_KEYS } from "../utils/paletteStorage";
+
+/**
+ * Props interface for the ImportPreviewList component.
+ */
+interface ImportPreviewListProps {
+  /** Palettes parsed from the selected files */
+  palettes: ImportedPalette[];
+}
+
+/**
+ * Renders the import preview with per-palette swatches and commit actions.
+ *
+ * @param props - Component properties
+ */
+export function ImportPreviewList({ palettes }: ImportPreviewListProps) {
+  /** Palettes still selected for import */
+  const [pendingPalettes, setPendingPalettes] = useState<ImportedPalette[]>(palettes);
+
+  const { palettes: storedPalettes, setPalettes: setStoredPalettes } = usePalettes();
+  const { value: keywords, setValue: setKeywords } = useLocalStorage<string[]>(STORAGE_KEYS.keywords, []);
+
+  /**
+   * Stores the pending palettes (newest first) and registers their keywords globally.
+   */
+  const commitImport = async () => {
+    try {
+      const now = Date.now();
+      const newPalettes: StoredPalette[] = pendingPalettes.map((palette, index) => ({
+        ...palette,
+        id: (now + index).toString(), // Offset keeps timestamp-based IDs unique within one import
+        createdAt: new Date(now).toISOString(),
+      }));
+
+      await setStoredPalettes([...newPalettes, ...(storedPalettes ?? [])]);
+
+      const importedKeywords = newPalettes.flatMap((palette) => palette.keywords);
+      await setKeywords([...new Set([...(keywords ?? []), ...importedKeywords])]);
+
+      showToast({
+        style: Toast.Style.Success,
+        title: "Success!",
+        message: `${newPalettes.length} color palette${newPalettes.length > 1 ? "s" : ""} imported`,
+      });
+
+      await open("raycast://extensions/elibattistoni/my-color-palettes-storage/view-color-palettes");
+    } catch (error) {
+      console.error("Error importing palettes:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to import color palettes",
+      });
+    }
+  };
+
+  /**
+   * Removes a palette from the pending import.
+   */
+  const removePalette = (index: number) => {
+    setPendingPalettes((prev) => prev.filter((_, idx) => idx !== index));
+  };
+
+  return (
+    <List navigationTitle="Import Preview" isShowingDetail={pendingPalettes.length > 0}>
+      {pendingPalettes.length === 0 ? (
+        <List.EmptyView icon={Icon.Tray} title="Nothing to Import" description="No palettes left in this import" />
+      ) : (
+        pendingPalettes.map((palette, index) => (
+          <List.Item
+            key={index}
+            icon={palette.mode === "dark" ? Icon.Moon : Icon.Sun}
+            title={palette.name}
+            accessories={[{ text: `${palette.colors.length} color${palette.colors.length > 1 ? "s" : ""}` }]}
+            detail={
+              <List.Item.Detail
+                metadata={
+                  <List.Item.Detail.Metadata>
+                    <List.Item.Detail.Metadata.Label title="Description" text={palette.description} />
+                    <List.Item.Detail.Metadata.TagList title="Keywords">
+                      {palette.keywords.map((keyword, idx) => (
+                        <List.Item.Detail.Metadata.TagList.Item key={idx} text={keyword} />
+                      ))}
+                    </List.Item.Detail.Metadata.TagList>
+                    <List.Item.Detail.Metadata.Separator />
+                    {palette.colors.map((color, idx) => (
+                      <List.Item.Detail.Metadata.TagList key={idx} title={`Color ${idx + 1}`}>
+                        <List.Item.Detail.Metadata.TagList.Item text={color.value} color={color.normalized} />
+                      </List.Item.Detail.Metadata.TagList>
+                    ))}
+                  </List.Item.Detail.Metadata>
+                }
+              />
+            }
+            actions={
+              <ActionPanel>
+                <Action
+                  title={`Import ${pendingPalettes.length} Palette${pendingPalettes.length > 1 ? "s" : ""}`}
+                  icon={Icon.Download}
+                  onAction={commitImport}
+                />
+                <Action
+                  title="Remove from Import"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={() => removePalette(index)}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                />
+              </ActionPanel>
+            }
+          />
+        ))
+      )}
+    </List>
+  );
+}
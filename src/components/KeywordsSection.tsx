@@ -2,7 +2,8 @@
  * KeywordsSection Component
  *
  * Interactive keyword management with tag picker and text input for creation/selection.
- * Provides dual interface for keyword workflow management.
+ * Provides dual interface for keyword workflow management, and lists the keywords
+ * suggested from the palette colors.
  */
 
 import { Form, showToast, Toast } from "@raycast/api";
@@ -20,6 +21,8 @@ interface KeywordsSectionProps {
   updateKeywords: (keywordsText: string) => Promise<void>;
   /** Function to create focus handlers for real-time tracking */
   createFocusHandlers?: (fieldName: string) => { onFocus: () => void; onBlur: () => void };
+  /** Keywords suggested from the colors that the palette does not carry yet */
+  suggestedKeywords?: string[];
 }
 
 /**
@@ -28,7 +31,13 @@ interface KeywordsSectionProps {
  *
  * @param props - Component properties
  */
-export function KeywordsSection({ keywords, itemProps, updateKeywords, createFocusHandlers }: KeywordsSectionProps) {
+export function KeywordsSection({
+  keywords,
+  itemProps,
+  updateKeywords,
+  createFocusHandlers,
+  suggestedKeywords,
+}: KeywordsSectionProps) {
   /** Local state for the keyword input field value */
   const [updateKeywordsValue, setUpdateKeywordsValue] = useState("");
 
@@ -84,6 +93,11 @@ export function KeywordsSection({ keywords, itemProps, updateKeywords, createFoc
         onFocus={"onFocus" in updateKeywordsFocusHandlers ? (updateKeywordsFocusHandlers as any).onFocus : undefined}
         onBlur={handleCombinedBlur}
       />
+
+      {/* Keywords suggested from the colors, accepted all at once with the Add Suggested Keywords action */}
+      {suggestedKeywords && suggestedKeywords.length > 0 && (
+        <Form.Description title="Suggested" text={`${suggestedKeywords.join(", ")}\nPress ⌘⇧K to add them`} />
+      )}
     </>
   );
 }
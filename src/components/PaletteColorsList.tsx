@@ -0,0 +1,131 @@
+/**
+ * PaletteColorsList Component
+ *
+ * Lists the colors of a stored palette so they can be reordered or removed one by one.
+ * Changes are saved immediately and show up in the palettes list.
+ */
+
+import { Action, ActionPanel, Icon, Keyboard, List, showToast, Toast } from "@raycast/api";
+import { usePalettes } from "../hooks/usePalettes";
+import { PaletteColor } from "../types";
+import { moveItem, removeItem } from "../utils/arrayHelpers";
+import { getColorRoleTitle, getPaletteColorName } from "../utils/paletteColors";
+
+/**
+ * Props interface for the PaletteColorsList component.
+ */
+interface PaletteColorsListProps {
+  /** Identifier of the stored palette whose colors are listed */
+  paletteId: string;
+}
+
+/**
+ * Renders the colors of a palette with move and remove actions.
+ *
+ * @param props - Component properties
+ */
+export function PaletteColorsList({ paletteId }: PaletteColorsListProps) {
+  const { palettes, setPalettes, isLoading } = usePalettes();
+  const palette = palettes?.find((item) => item.id === paletteId);
+
+  /**
+   * Replaces the colors of the palette in storage and marks it as updated.
+   */
+  const saveColors = async (colors: PaletteColor[], message: string) => {
+    try {
+      await setPalettes(
+        (palettes ?? []).map((item) =>
+          item.id === paletteId ? { ...item, colors, updatedAt: new Date().toISOString() } : item,
+        ),
+      );
+      showToast({ style: Toast.Style.Success, title: "Palette updated", message });
+    } catch (error) {
+      console.error("Error updating palette colors:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to update the palette colors",
+      });
+    }
+  };
+
+  if (!palette) {
+    return (
+      <List isLoading={isLoading}>
+        {!isLoading && (
+          <List.EmptyView icon={Icon.Warning} title="Palette Not Found" description="This palette no longer exists" />
+        )}
+      </List>
+    );
+  }
+
+  return (
+    <List navigationTitle={`Colors of ${palette.name}`} isLoading={isLoading}>
+      {palette.colors.map((color, index) => (
+        <List.Item
+          key={`${index}-${color.value}`}
+          icon={{ source: Icon.CircleFilled, tintColor: color.normalized }}
+          title={`${index + 1}. ${color.value}`}
+          subtitle={getPaletteColorName(color)}
+          accessories={[
+            ...(color.note ? [{ icon: Icon.Text, tooltip: color.note }] : []),
+            ...(color.role ? [{ tag: getColorRoleTitle(color.role) }] : []),
+          ]}
+          actions={
+            <ActionPanel>
+              {index > 0 && (
+                <Action
+                  title="Move Color Earlier"
+                  icon={Icon.ArrowUp}
+                  onAction={() =>
+                    saveColors(moveItem(palette.colors, index, index - 1), `Color moved to position ${index}`)
+                  }
+                  shortcut={Keyboard.Shortcut.Common.MoveUp}
+                />
+              )}
+              {index < palette.colors.length - 1 && (
+                <Action
+                  title="Move Color Later"
+                  icon={Icon.ArrowDown}
+                  onAction={() =>
+                    saveColors(moveItem(palette.colors, index, index + 1), `Color moved to position ${index + 2}`)
+                  }
+                  shortcut={Keyboard.Shortcut.Common.MoveDown}
+                />
+              )}
+              {index > 0 && (
+                <Action
+                  title="Move to Top"
+                  icon={Icon.ArrowUpCircle}
+                  onAction={() => saveColors(moveItem(palette.colors, index, 0), "Color moved to position 1")}
+                />
+              )}
+              {index < palette.colors.length - 1 && (
+                <Action
+                  title="Move to Bottom"
+                  icon={Icon.ArrowDownCircle}
+                  onAction={() =>
+                    saveColors(
+                      moveItem(palette.colors, index, palette.colors.length - 1),
+                      `Color moved to position ${palette.colors.length}`,
+                    )
+                  }
+                />
+              )}
+              <Action.CopyToClipboard title="Copy Color" content={color.value} />
+              {palette.colors.length > 1 && (
+                <Action
+                  title="Remove Color"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={() => saveColors(removeItem(palette.colors, index), `${color.value} removed`)}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                />
+              )}
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
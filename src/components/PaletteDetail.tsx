@@ -0,0 +1,149 @@
+/**
+ * PaletteDetail Component
+ *
+ * Full details of a palette: metadata, colors grouped by role, swatches, the pairwise
+ * contrast matrix and color vision simulations. The markdown is built when the view
+ * opens, not for every palette of the list.
+ */
+
+import { Detail } from "@raycast/api";
+import { useMemo } from "react";
+import { StoredPalette } from "../types";
+import { findIndistinguishablePairs, simulatePalette, VISION_DEFICIENCIES } from "../utils/colorVision";
+import { getContrast } from "../utils/contrast";
+import { formatDate } from "../utils/formatDate";
+import { getNormalizedColors, getPaletteColorName, groupColorsByRole, hasColorRoles } from "../utils/paletteColors";
+
+/**
+ * Creates a pairwise contrast matrix (rows = text color, columns = background color).
+ * Each cell shows the WCAG ratio, the levels for normal / large text and the APCA Lc value.
+ */
+const createMdContrastMatrix = (colors: string[]) => {
+  if (colors.length < 2) {
+    return "_Add at least two colors to compare contrast._";
+  }
+
+  const header = `| Text ↓ / Background → | ${colors.map((color) => `\`${color}\``).join(" | ")} |`;
+  const divider = `| --- | ${colors.map(() => "---").join(" | ")} |`;
+  const rows = colors.map((text, textIndex) => {
+    const cells = colors.map((background, backgroundIndex) => {
+      if (textIndex === backgroundIndex) return "—";
+      const contrast = getContrast(text, background);
+      if (!contrast) return "?";
+      return `**${contrast.ratio.toFixed(2)}** ${contrast.normalText} / ${contrast.largeText} · Lc ${Math.round(contrast.apca)}`;
+    });
+    return `| \`${text}\` | ${cells.join(" | ")} |`;
+  });
+
+  return `${[header, divider, ...rows].join("\n")}
+
+_Ratio, WCAG level for normal / large text, APCA lightness contrast (Lc)._`;
+};
+
+/**
+ * Creates color-vision-deficiency previews: simulated codes next to the originals,
+ * swatches for each simulation and warnings for colors that become indistinguishable.
+ */
+const createMdVisionSimulation = (palette: StoredPalette) => {
+  const header = `| Vision | ${palette.colors.map((_, index) => `${index + 1}`).join(" | ")} |`;
+  const divider = `| --- | ${palette.colors.map(() => "---").join(" | ")} |`;
+  const original = `| Original | ${getNormalizedColors(palette)
+    .map((color) => `\`${color}\``)
+    .join(" | ")} |`;
+
+  const simulations = VISION_DEFICIENCIES.map(({ deficiency, title, description }) => {
+    const simulatedColors = simulatePalette(palette, deficiency);
+    const row = `| ${title} | ${simulatedColors.map((color) => `\`${color}\``).join(" | ")} |`;
+    const swatches = simulatedColors
+      .map(
+        (color) =>
+          `<div style="width: 30px; height: 30px; background-color: ${color}; display: inline-block; margin-right: 6px; border-radius: 4px;"></div>`,
+      )
+      .join("");
+    const warnings = findIndistinguishablePairs(simulatedColors).map(
+      ({ first, second, distance }) =>
+        `- ⚠️ Colors ${first + 1} and ${second + 1} become hard to tell apart (ΔE ${distance.toFixed(1)})`,
+    );
+
+    return {
+      row,
+      section: `**${title}** _(${description})_\n\n${swatches}\n\n${warnings.length > 0 ? warnings.join("\n") : "- ✅ All colors stay distinguishable"}`,
+    };
+  });
+
+  return `${[header, divider, original, ...simulations.map(({ row }) => row)].join("\n")}
+
+${simulations.map(({ section }) => section).join("\n\n")}`;
+};
+
+/**
+ * Creates detailed markdown view with color swatches and metadata.
+ */
+const createMdDetails = (palette: StoredPalette) => {
+  // Create visual color swatches using inline HTML for better presentation
+  const colorSwatches = getNormalizedColors(palette)
+    .map(
+      (color) =>
+        `<div style="width: 50px; height: 50px; background-color: ${color}; display: inline-block; margin-right: 10px; border-radius: 4px;"></div>`,
+    )
+    .join("");
+
+  // Create numbered list of color codes for easy copying, grouped by role when roles are set
+  const colorList = groupColorsByRole(palette.colors)
+    .map(({ title, colors }) => {
+      const items = colors
+        .map(
+          ({ color, index }) =>
+            `- **${index + 1}.** \`${color.value}\` — ${getPaletteColorName(color)}${color.note ? ` _(${color.note})_` : ""}`,
+        )
+        .join("\n");
+      return hasColorRoles(palette.colors) ? `#### ${title}\n${items}` : items;
+    })
+    .join("\n\n");
+
+  return `
+# ${palette.name}
+
+**Mode:** ${palette.mode === "dark" ? "Dark Color Palette" : "Light Color Palette"}
+
+**Description:** ${palette.description}
+
+**Keywords:** ${palette.keywords && palette.keywords.length > 0 ? palette.keywords.join(", ") : "No keywords"}
+
+**Created:** ${formatDate(palette.createdAt)}
+${palette.updatedAt ? `\n**Updated:** ${formatDate(palette.updatedAt)}\n` : ""}
+**Colors (${palette.colors.length}):**
+
+${colorList}
+
+---
+
+### Color Palette
+${colorSwatches}
+
+### Contrast Matrix
+${createMdContrastMatrix(getNormalizedColors(palette))}
+
+### Color Vision Simulation
+${createMdVisionSimulation(palette)}
+    `;
+};
+
+/**
+ * Props interface for the PaletteDetail component.
+ */
+interface PaletteDetailProps {
+  /** Palette to show */
+  palette: StoredPalette;
+}
+
+/**
+ * Renders the palette details as markdown.
+ *
+ * @param props - Component properties
+ */
+export function PaletteDetail({ palette }: PaletteDetailProps) {
+  const markdown = useMemo(() => createMdDetails(palette), [palette]);
+
+  return <Detail markdown={markdown} />;
+}
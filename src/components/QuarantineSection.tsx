@@ -0,0 +1,72 @@
+/**
+ * QuarantineSection Component
+ *
+ * Reports stored records that failed validation when the palettes were loaded.
+ * Each record can be inspected, copied as raw JSON or discarded for good.
+ */
+
+import { Action, ActionPanel, Color, Icon, Keyboard, List } from "@raycast/api";
+import { formatDate } from "../utils/formatDate";
+import { QuarantinedRecord } from "../utils/paletteStorage";
+
+/**
+ * Props interface for the QuarantineSection component.
+ */
+interface QuarantineSectionProps {
+  /** Records rejected by validation */
+  records: QuarantinedRecord[];
+  /** Function to permanently delete a record */
+  onDiscard: (index: number) => void;
+}
+
+/**
+ * Returns the name stored in a raw record, when it has one.
+ */
+const getRecordName = (record: unknown): string | undefined =>
+  typeof record === "object" && record !== null && "name" in record && typeof record.name === "string"
+    ? record.name
+    : undefined;
+
+/**
+ * Renders one list item per quarantined record.
+ *
+ * @param props - Component properties
+ */
+export function QuarantineSection({ records, onDiscard }: QuarantineSectionProps) {
+  if (records.length === 0) return null;
+
+  return (
+    <List.Section title="Corrupted Entries" subtitle={`${records.length} quarantined`}>
+      {records.map(({ record, reason, quarantinedAt }, index) => {
+        const rawJson = JSON.stringify(record, null, 2) ?? String(record);
+
+        return (
+          <List.Item
+            key={`quarantine-${index}`}
+            id={`quarantine-${index}`}
+            icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+            title={getRecordName(record) ?? `Entry ${index + 1}`}
+            subtitle={reason}
+            detail={
+              <List.Item.Detail
+                markdown={`## Corrupted Entry\n\n**Problem:** ${reason}\n\n**Quarantined:** ${formatDate(quarantinedAt)}\n\nThis entry could not be read and was set aside so the rest of your palettes keep working.\n\n\`\`\`json\n${rawJson}\n\`\`\``}
+              />
+            }
+            actions={
+              <ActionPanel>
+                <Action.CopyToClipboard title="Copy Raw Data" content={rawJson} />
+                <Action
+                  title="Discard Entry"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={() => onDiscard(index)}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List.Section>
+  );
+}
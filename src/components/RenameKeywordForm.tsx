@@ -0,0 +1,68 @@
+/**
+ * RenameKeywordForm Component
+ *
+ * Form for renaming a keyword across every palette. Pops back after renaming.
+ */
+
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useForm } from "@raycast/utils";
+
+/**
+ * Props interface for the RenameKeywordForm component.
+ */
+interface RenameKeywordFormProps {
+  /** The keyword to rename */
+  keyword: string;
+  /** Number of palettes using the keyword */
+  count: number;
+  /** Every existing keyword, to tell the user when the rename merges two keywords */
+  keywords: string[];
+  /** Renames the keyword; resolves to whether it succeeded */
+  onRename: (newName: string) => Promise<boolean>;
+}
+
+/**
+ * Renders the rename form of a keyword.
+ *
+ * @param props - Component properties
+ */
+export function RenameKeywordForm({ keyword, count, keywords, onRename }: RenameKeywordFormProps) {
+  const { pop } = useNavigation();
+
+  const { handleSubmit, itemProps, values } = useForm<{ name: string }>({
+    initialValues: { name: keyword },
+    validation: {
+      name: (value) => {
+        const name = value?.trim();
+        if (!name) return "The name is required";
+        if (name === keyword) return "Enter a different name";
+        if (name.includes(",")) return "Keywords cannot contain commas";
+      },
+    },
+    onSubmit: async ({ name }) => {
+      if (await onRename(name.trim())) pop();
+    },
+  });
+
+  const mergesInto = keywords.find((item) => item !== keyword && item === values.name?.trim());
+
+  return (
+    <Form
+      navigationTitle={`Rename "${keyword}"`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Rename Keyword" icon={Icon.Pencil} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={`Used by ${count} palette${count === 1 ? "" : "s"}. Every palette is updated.`} />
+      <Form.TextField title="New Name" {...itemProps.name} />
+      {mergesInto && (
+        <Form.Description
+          title="Merge"
+          text={`"${mergesInto}" already exists: both keywords will be merged into "${mergesInto}".`}
+        />
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * RestoreSummary Component
+ *
+ * Summary of what restoring a backup will change, shown before anything is written.
+ * Confirming replaces the stored palettes, keywords and collections with the planned result.
+ */
+
+import { Action, ActionPanel, Detail, Icon, open, showToast, Toast } from "@raycast/api";
+import { useLocalStorage } from "@raycast/utils";
+import { useCollections } from "../hooks/useCollections";
+import { usePalettes } from "../hooks/usePalettes";
+import { StoredPalette } from "../types";
+import { formatDate } from "../utils/formatDate";
+import { ParsedBackup, planRestore, RESTORE_MODES, RestoreMode, RestorePlan } from "../utils/libraryBackup";
+import { saveCollections, STORAGE_KEYS } from "../utils/paletteStorage";
+
+/**
+ * Props interface for the RestoreSummary component.
+ */
+interface RestoreSummaryProps {
+  /** The verified backup to restore */
+  backup: ParsedBackup;
+  /** How the backup is combined with the current library */
+  mode: RestoreMode;
+}
+
+/**
+ * Renders a bulleted list of palette names, or nothing when the list is empty.
+ */
+const listPalettes = (title: string, palettes: StoredPalette[]) =>
+  palettes.length > 0
+    ? `### ${title} (${palettes.length})\n${palettes.map((palette) => `- ${palette.name} _(${palette.mode})_`).join("\n")}\n`
+    : "";
+
+/**
+ * Creates the markdown summary of a restore plan.
+ */
+const createMdSummary = (backup: ParsedBackup, mode: RestoreMode, plan: RestorePlan) => {
+  const modeInfo = RESTORE_MODES.find((item) => item.mode === mode);
+  const duplicates =
+    plan.duplicates.length > 0
+      ? `### Duplicates Skipped (${plan.duplicates.length})\n${plan.duplicates
+          .map(({ palette, existing }) => `- ${palette.name} has the same colors as ${existing.name}`)
+          .join("\n")}\n`
+      : "";
+  const invalid =
+    backup.invalid.length > 0
+      ? `### Invalid Entries Ignored (${backup.invalid.length})\n${backup.invalid.map(({ reason }) => `- ${reason}`).join("\n")}\n`
+      : "";
+
+  return `
+# Restore Library
+
+**Backup from:** ${backup.createdAt ? formatDate(backup.createdAt) : "Unknown date"}
+
+**Mode:** ${modeInfo?.title} — ${modeInfo?.description}
+
+**Result:** ${plan.palettes.length} palette${plan.palettes.length === 1 ? "" : "s"}, ${plan.keywords.length} keyword${plan.keywords.length === 1 ? "" : "s"}, ${plan.collections.length} collection${plan.collections.length === 1 ? "" : "s"}
+
+${listPalettes("Added", plan.added)}
+${listPalettes("Overwritten", plan.overwritten)}
+${listPalettes("Kept (already exist)", plan.skipped)}
+${listPalettes("Deleted", plan.removed)}
+${duplicates}
+${invalid}
+`;
+};
+
+/**
+ * Renders the restore summary with the confirm action.
+ *
+ * @param props - Component properties
+ */
+export function RestoreSummary({ backup, mode }: RestoreSummaryProps) {
+  const { palettes, setPalettes, isLoading: isLoadingPalettes } = usePalettes();
+  const {
+    value: keywords,
+    setValue: setKeywords,
+    isLoading: isLoadingKeywords,
+  } = useLocalStorage<string[]>(STORAGE_KEYS.keywords, []);
+
+  const { collections, isLoading: isLoadingCollections } = useCollections();
+
+  const isLoading = isLoadingPalettes || isLoadingKeywords || isLoadingCollections;
+  const plan = planRestore(
+    { palettes: palettes ?? [], keywords: keywords ?? [], collections: collections ?? [] },
+    backup,
+    mode,
+  );
+
+  /**
+   * Writes the planned palettes, keywords and collections, then opens the palettes list.
+   */
+  const handleRestore = async () => {
+    try {
+      await setPalettes(plan.palettes);
+      await setKeywords(plan.keywords);
+      await saveCollections(plan.collections);
+
+      showToast({
+        style: Toast.Style.Success,
+        title: "Library restored!",
+        message: `${plan.added.length} added, ${plan.overwritten.length} overwritten, ${plan.skipped.length + plan.duplicates.length} skipped`,
+      });
+
+      await open("raycast://extensions/elibattistoni/my-color-palettes-storage/view-color-palettes");
+    } catch (error) {
+      console.error("Error restoring library:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to restore the library",
+      });
+    }
+  };
+
+  return (
+    <Detail
+      isLoading={isLoading}
+      navigationTitle="Restore Library"
+      markdown={isLoading ? "" : createMdSummary(backup, mode, plan)}
+      actions={
+        !isLoading && (
+          <ActionPanel>
+            <Action
+              title="Restore Library"
+              icon={Icon.Download}
+              style={mode === "replace" ? Action.Style.Destructive : Action.Style.Regular}
+              onAction={handleRestore}
+            />
+          </ActionPanel>
+        )
+      }
+    />
+  );
+}
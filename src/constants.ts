@@ -28,6 +28,8 @@ export const CLEAR_FORM_VALUES: PaletteFormFields = {
   mode: "",
   /** Default empty keywords array */
   keywords: [],
+  /** Default no collection */
+  collection: "",
   /** Default first color field (empty) */
   color1: "",
 };
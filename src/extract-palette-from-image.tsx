@@ -0,0 +1,95 @@
+import { Action, ActionPanel, Form, Icon, LaunchType, showToast, Toast, useNavigation } from "@raycast/api";
+import { basename, extname } from "path";
+import SaveColorPalettesCommand from "./save-color-palettes";
+import { PaletteFormFields } from "./types";
+import { IMAGE_FILE_EXTENSIONS, loadImage } from "./utils/decodeImage";
+import { DEFAULT_EXTRACTED_COLOR_COUNT, extractPalette } from "./utils/extractPalette";
+import { inferMode } from "./utils/importPalettes";
+
+/** Numbers of colors the user can extract */
+const COLOR_COUNTS = [3, 4, 5, 6, 7, 8, 9, 10];
+
+/**
+ * Extract Palette from Image Command
+ *
+ * Decodes a PNG or JPEG file locally, extracts its dominant colors and opens the
+ * save form prefilled with them, so a palette can be built from a screenshot or photo
+ * without picking each color by hand.
+ */
+export default function Command() {
+  const { push } = useNavigation();
+
+  /**
+   * Extracts the colors of the selected image and opens the save form.
+   */
+  const handleSubmit = async (values: { file: string[]; count: string }) => {
+    const [file] = values.file ?? [];
+    if (!file || !IMAGE_FILE_EXTENSIONS.includes(extname(file).toLowerCase())) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Please choose a .png, .jpg or .jpeg image",
+      });
+      return;
+    }
+
+    const toast = await showToast({ style: Toast.Style.Animated, title: "Extracting colors..." });
+
+    try {
+      const colors = extractPalette(await loadImage(file), Number(values.count));
+      if (colors.length === 0) {
+        toast.style = Toast.Style.Failure;
+        toast.title = "No colors found";
+        toast.message = "The image is fully transparent";
+        return;
+      }
+
+      const name = basename(file, extname(file));
+      /** Form values for saving the colors as a new palette (names are limited to 15 characters) */
+      const formData: PaletteFormFields = {
+        name: name.slice(0, 15),
+        description: `Extracted from ${basename(file)}`.slice(0, 50),
+        mode: inferMode(colors),
+        keywords: [],
+        ...Object.fromEntries(colors.map((color, index) => [`color${index + 1}`, color])),
+      };
+
+      await toast.hide();
+      push(<SaveColorPalettesCommand launchType={LaunchType.UserInitiated} arguments={{}} draftValues={formData} />);
+    } catch (error) {
+      console.error(`Error extracting colors from ${file}:`, error);
+      toast.style = Toast.Style.Failure;
+      toast.title = "Error";
+      toast.message = "Failed to read the image";
+    }
+  };
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Extract Colors" icon={Icon.Swatch} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Extract a Color Palette from an image" />
+      <Form.FilePicker
+        id="file"
+        title="Image"
+        info="A PNG or JPEG image, such as a screenshot or a photo. It is decoded locally and never uploaded."
+        allowMultipleSelection={false}
+        canChooseDirectories={false}
+      />
+      <Form.Dropdown
+        id="count"
+        title="Colors"
+        info="Number of dominant colors to extract. Images with fewer distinct colors give fewer."
+        defaultValue={String(DEFAULT_EXTRACTED_COLOR_COUNT)}
+      >
+        {COLOR_COUNTS.map((count) => (
+          <Form.Dropdown.Item key={count} value={String(count)} title={`${count} colors`} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
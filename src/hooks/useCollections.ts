@@ -0,0 +1,103 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { PaletteCollection, StoredPalette } from "../types";
+import { loadCollections, loadPaletteLibrary, saveCollections, savePalettes } from "../utils/paletteStorage";
+
+/**
+ * Custom hook giving access to the palette collections.
+ *
+ * Loads the collections from local storage and shares them through Raycast's cache,
+ * like {@link usePalettes}, so every mounted view sees changes immediately.
+ * Deleting a collection keeps its palettes: they simply become unassigned.
+ *
+ * @returns An object containing:
+ * - `collections`: Collections in creation order (undefined until first loaded)
+ * - `saveCollection`: Creates a collection, or updates it when an ID is given
+ * - `deleteCollection`: Deletes a collection and unassigns its palettes
+ * - `isLoading`: Whether the collections are still being read from storage
+ *
+ * @example
+ * ```typescript
+ * const { collections, saveCollection } = useCollections();
+ * await saveCollection({ name: "Brand 2026", icon: "Brush", color: "Purple" });
+ * ```
+ */
+export function useCollections() {
+  const [collections, setCollections] = useCachedState<PaletteCollection[] | undefined>(
+    "color-palettes-collections",
+    undefined,
+  );
+  const [, setPalettes] = useCachedState<StoredPalette[] | undefined>("color-palettes-list", undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadCollections()
+      .then(setCollections)
+      .catch((error) => {
+        console.error("Error loading collections:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "Failed to load collections",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Creates a collection, or updates the name, icon and color of an existing one.
+   *
+   * @param values - Name and optional icon and color of the collection
+   * @param collectionId - ID of the collection to update; omit to create a new one
+   * @returns The saved collection
+   */
+  const saveCollection = async (
+    values: Pick<PaletteCollection, "name" | "icon" | "color">,
+    collectionId?: string,
+  ): Promise<PaletteCollection> => {
+    const current = await loadCollections();
+    const existing = current.find((collection) => collection.id === collectionId);
+    const collection: PaletteCollection = {
+      id: existing?.id ?? Date.now().toString(),
+      name: values.name.trim(),
+      ...(values.icon && { icon: values.icon }),
+      ...(values.color && { color: values.color }),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+
+    const updated = existing
+      ? current.map((item) => (item.id === collection.id ? collection : item))
+      : [...current, collection];
+    await saveCollections(updated);
+    setCollections(updated);
+    return collection;
+  };
+
+  /**
+   * Deletes a collection. Its palettes are kept and become unassigned.
+   *
+   * @param collectionId - ID of the collection to delete
+   */
+  const deleteCollection = async (collectionId: string) => {
+    const { palettes } = await loadPaletteLibrary();
+    const unassigned = palettes.map(({ collectionId: paletteCollectionId, ...palette }) =>
+      paletteCollectionId && paletteCollectionId !== collectionId
+        ? { ...palette, collectionId: paletteCollectionId }
+        : palette,
+    );
+    await savePalettes(unassigned);
+    setPalettes(unassigned);
+
+    const remaining = (await loadCollections()).filter((collection) => collection.id !== collectionId);
+    await saveCollections(remaining);
+    setCollections(remaining);
+  };
+
+  return {
+    collections,
+    saveCollection,
+    deleteCollection,
+    isLoading,
+  };
+}
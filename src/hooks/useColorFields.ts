@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { PaletteFormFields } from "../types";
+import { getColorFieldIndex, isColorField } from "../utils/formHelpers";
 
 /**
  * Custom hook to manage the number of color fields in a dynamic form.
@@ -21,13 +22,15 @@ import { PaletteFormFields } from "../types";
  *
  * @param draftValues - Optional saved form values to restore previous session state.
  *                     When provided, the hook will initialize the correct number of
- *                     color fields based on existing color entries in the draft.
+ *                     color fields based on the last color field holding a value in the draft
+ *                     (fields emptied by reordering or removing colors are not restored).
  *
  * @returns An object containing:
  * - `colorFieldCount`: Number of color fields to render
  * - `addColorField`: Function to increment the color field count
  * - `removeColorField`: Function to decrement the color field count (maintains minimum of 1)
  * - `resetColorFields`: Function to reset to initial state with one color field
+ * - `ensureColorFieldCount`: Function to grow the count so that at least the given number of fields exist
  *
  * @example
  * ```typescript
@@ -51,10 +54,12 @@ export function useColorFields(draftValues?: PaletteFormFields) {
   // Initialize color field count based on draft values or default to 1
   const [colorFieldCount, setColorFieldCount] = useState<number>(() => {
     if (draftValues) {
-      // Count existing color fields in draft (fields are named "color1", "color2", etc.)
-      const colorKeys = Object.keys(draftValues).filter((key) => key.startsWith("color"));
-      if (colorKeys.length > 0) {
-        return colorKeys.length;
+      // Find the last filled color field in draft (fields are named "color1", "color2", etc.; metadata fields are ignored)
+      const filledIndexes = Object.keys(draftValues)
+        .filter((key) => isColorField(key) && draftValues[key as keyof PaletteFormFields])
+        .map((key) => getColorFieldIndex(key) ?? 0);
+      if (filledIndexes.length > 0) {
+        return Math.max(...filledIndexes);
       }
     }
     // Default: single color field for new palettes
@@ -84,10 +89,19 @@ export function useColorFields(draftValues?: PaletteFormFields) {
     setColorFieldCount(1);
   };
 
+  /**
+   * Grows the number of color fields to at least `count` (never shrinks).
+   * Used when several colors are filled in at once, e.g. from a pasted Coolors URL.
+   */
+  const ensureColorFieldCount = (count: number) => {
+    setColorFieldCount((prev) => Math.max(prev, count));
+  };
+
   return {
     colorFieldCount,
     addColorField,
     removeColorField,
     resetColorFields,
+    ensureColorFieldCount,
   };
 }
@@ -0,0 +1,77 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { StoredPalette } from "../types";
+import {
+  autoTagPalettes,
+  deleteKeywords,
+  getKeywordUsage,
+  KeywordState,
+  mergeKeywords,
+  renameKeyword,
+} from "../utils/keywordOperations";
+import { loadKeywords } from "../utils/paletteStorage";
+import { usePalettes } from "./usePalettes";
+
+/**
+ * Custom hook giving access to every keyword with its usage, and to the operations
+ * that rename, merge or delete keywords across all palettes.
+ *
+ * After every operation the palette list is updated in Raycast's cache, so any mounted
+ * view using {@link usePalettes} refreshes too.
+ *
+ * @returns An object containing:
+ * - `keywords`: Every keyword with the number of palettes using it, most used first
+ * - `renameKeyword`: Renames a keyword everywhere
+ * - `mergeKeywords`: Merges keywords into another one everywhere
+ * - `deleteKeywords`: Deletes keywords from every palette and the global list
+ * - `autoTagPalettes`: Adds the keywords suggested from their colors to every palette; resolves to the number of palettes tagged
+ * - `isLoading`: Whether palettes or keywords are still being read from storage
+ *
+ * @example
+ * ```typescript
+ * const { keywords, mergeKeywords } = useKeywordManagement();
+ * await mergeKeywords(["sea", "seaside"], "ocean");
+ * ```
+ */
+export function useKeywordManagement() {
+  const { palettes, isLoading: isLoadingPalettes } = usePalettes();
+  const [, setPalettes] = useCachedState<StoredPalette[] | undefined>("color-palettes-list", undefined);
+  const [globalKeywords, setGlobalKeywords] = useState<string[]>([]);
+  const [isLoadingKeywords, setIsLoadingKeywords] = useState(true);
+
+  useEffect(() => {
+    loadKeywords()
+      .then(setGlobalKeywords)
+      .catch((error) => {
+        console.error("Error loading keywords:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "Failed to load keywords",
+        });
+      })
+      .finally(() => setIsLoadingKeywords(false));
+  }, []);
+
+  /**
+   * Shares the result of a keyword operation with every mounted view.
+   */
+  const applyState = (state: KeywordState) => {
+    setPalettes(state.palettes);
+    setGlobalKeywords(state.keywords);
+  };
+
+  return {
+    keywords: getKeywordUsage(palettes ?? [], globalKeywords),
+    renameKeyword: async (keyword: string, newName: string) => applyState(await renameKeyword(keyword, newName)),
+    mergeKeywords: async (keywords: string[], target: string) => applyState(await mergeKeywords(keywords, target)),
+    deleteKeywords: async (keywords: string[]) => applyState(await deleteKeywords(keywords)),
+    autoTagPalettes: async () => {
+      const state = await autoTagPalettes();
+      applyState(state);
+      return state.taggedCount;
+    },
+    isLoading: isLoadingPalettes || isLoadingKeywords,
+  };
+}
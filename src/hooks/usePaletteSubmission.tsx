@@ -0,0 +1,281 @@
+import { open, showToast, Toast, useNavigation } from "@raycast/api";
+import { DuplicatePaletteWarning } from "../components/DuplicatePaletteWarning";
+import { PaletteFormFields, StoredPalette, ViewPalettesLaunchContext } from "../types";
+import { findDuplicatePalette, PaletteDuplicate } from "../utils/duplicatePalettes";
+import { extractPaletteColors } from "../utils/formHelpers";
+import { getNormalizedColors } from "../utils/paletteColors";
+import { carryOverColorUsage } from "../utils/paletteUsage";
+import { usePalettes } from "./usePalettes";
+
+/**
+ * Custom hook for handling color palette submission and persistence logic.
+ *
+ * This hook encapsulates all the complex operations required to save a color palette,
+ * including local storage management, data transformation, user feedback, and navigation.
+ * It provides a clean interface for form components to submit palette data without
+ * handling the underlying storage and navigation complexity.
+ *
+ * **Responsibilities:**
+ * - Extracts and validates color values from form data
+ * - Stores a canonical hex value next to each color as typed by the user
+ * - Keeps the optional name, role and note of each color
+ * - Assigns the palette to the collection picked in the form, if any
+ * - Keeps the favorite flag and copy statistics of an edited palette
+ * - Warns about near-duplicates of stored palettes (save anyway, open the existing one or merge keywords)
+ * - Transforms form data into persistable storage format
+ * - Manages local storage operations for palette persistence
+ * - Generates unique IDs and timestamps for new palettes
+ * - Replaces an existing palette in place when editing (keeps `createdAt`, sets `updatedAt`)
+ * - Provides user feedback through toast notifications
+ * - Handles post-submission navigation to the palettes view (or back to it after an edit)
+ * - Manages error handling and recovery for failed submissions
+ * - Executes success callbacks for form cleanup operations
+ *
+ * **Integration Points:**
+ * - Uses Raycast's local storage utilities for data persistence
+ * - Integrates with Raycast's toast system for user notifications
+ * - Handles navigation between extension commands
+ * - Coordinates with form components through callback functions
+ *
+ * @returns An object containing:
+ * - `submitPalette`: Async function to save a palette and handle all side effects
+ *
+ * @example
+ * ```typescript
+ * // Basic usage in a form component
+ * const { submitPalette } = usePaletteSubmission();
+ *
+ * const handleSubmit = async (formValues: PaletteFormFields) => {
+ *   await submitPalette({
+ *     formValues,
+ *     colorCount: 3,
+ *     onSubmit: () => form.reset()
+ *   });
+ * };
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Example of data transformation:
+ * // Input: { name: "Sunset", mode: "light", color1: "#FF5733", color1Role: "primary", color2: "#FFC300" }
+ * // Output: StoredPalette {
+ * //   id: "1642584000000",
+ * //   name: "Sunset",
+ * //   mode: "light",
+ * //   colors: [
+ * //     { value: "#FF5733", normalized: "#FF5733", role: "primary" },
+ * //     { value: "#FFC300", normalized: "#FFC300" }
+ * //   ],
+ * //   createdAt: "2025-01-19T10:00:00.000Z"
+ * // }
+ * ```
+ */
+export function usePaletteSubmission() {
+  // Access the palettes shared across the extension (legacy palettes are upgraded on read)
+  const { palettes: storedPalettes, setPalettes: setStoredPalettes } = usePalettes();
+  const { pop, push } = useNavigation();
+
+  /**
+   * Opens the palettes view, optionally selecting a palette.
+   */
+  const openPalettesView = async (selectPaletteId?: string) => {
+    const context: ViewPalettesLaunchContext | undefined = selectPaletteId ? { selectPaletteId } : undefined;
+    await open(
+      `raycast://extensions/elibattistoni/my-color-palettes-storage/view-color-palettes${context ? `?context=${encodeURIComponent(JSON.stringify(context))}` : ""}`,
+    );
+  };
+
+  /**
+   * Persists a palette (new, or replacing the edited one) and navigates back to the list.
+   */
+  const savePalette = async (
+    palette: StoredPalette,
+    existingPalette: StoredPalette | undefined,
+    onSubmit: () => void,
+  ) => {
+    // Replace the edited palette in place, or prepend a new one (newest first)
+    const updatedPalettes = existingPalette
+      ? (storedPalettes ?? []).map((storedPalette) => (storedPalette.id === palette.id ? palette : storedPalette))
+      : [palette, ...(storedPalettes ?? [])];
+    await setStoredPalettes(updatedPalettes);
+
+    // Provide detailed success feedback to user
+    showToast({
+      style: Toast.Style.Success,
+      title: "Success!",
+      message: `${palette.name} ${palette.mode} color palette ${existingPalette ? "updated" : "created"} with ${palette.colors.length} color${palette.colors.length > 1 ? "s" : ""}`,
+    });
+
+    // Execute form cleanup operations (reset fields, clear drafts, etc.)
+    onSubmit();
+
+    if (existingPalette) {
+      // Edits are started from the palettes list, so simply go back to it
+      pop();
+      return;
+    }
+
+    // Navigate to the view palettes command to show the newly created palette
+    await openPalettesView();
+  };
+
+  /**
+   * Adds the keywords of a palette to the stored palette it duplicates, instead of saving it.
+   */
+  const mergeKeywords = async (palette: StoredPalette, duplicate: PaletteDuplicate, onSubmit: () => void) => {
+    const keywords = [...new Set([...duplicate.palette.keywords, ...palette.keywords])];
+    await setStoredPalettes(
+      (storedPalettes ?? []).map((storedPalette) =>
+        storedPalette.id === duplicate.palette.id
+          ? { ...storedPalette, keywords, updatedAt: new Date().toISOString() }
+          : storedPalette,
+      ),
+    );
+
+    const added = keywords.length - duplicate.palette.keywords.length;
+    showToast({
+      style: Toast.Style.Success,
+      title: "Keywords Merged",
+      message: `${added} keyword${added === 1 ? "" : "s"} added to ${duplicate.palette.name}`,
+    });
+
+    onSubmit();
+    await openPalettesView(duplicate.palette.id);
+  };
+
+  /**
+   * Runs an action of the duplicate warning with error feedback.
+   */
+  const handleWarningAction = (action: () => Promise<void>) => async () => {
+    try {
+      await action();
+    } catch (error) {
+      console.error("Error saving palette:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to save color palette",
+      });
+    }
+  };
+
+  /**
+   * Submits a color palette by saving it to local storage and handling all side effects.
+   *
+   * This function orchestrates the entire submission process including data transformation,
+   * persistence, user feedback, navigation, and error handling. It ensures data consistency
+   * and provides a smooth user experience during palette creation.
+   *
+   * **Process Flow:**
+   * 1. Extract colors and their metadata from form data based on color count
+   * 2. Transform form data into storage-ready format
+   * 3. Generate unique ID and timestamp (or reuse the edited palette's ID and creation date)
+   * 4. Look for a stored near-duplicate; if one is found, show the duplicate warning and stop
+   *    (its actions save anyway, open the existing palette or merge keywords into it)
+   * 5. Prepend new palette to existing list (newest first), or replace the edited one in place
+   * 6. Persist to local storage
+   * 7. Show success notification with details
+   * 8. Execute form cleanup callback
+   * 9. Navigate to palettes view (pop back to the list when editing)
+   * 10. Handle any errors with user-friendly messages
+   *
+   * @param params - Object containing all submission parameters
+   * @param params.formValues - The validated form data containing palette information
+   * @param params.colorCount - Number of color fields to extract from form data
+   * @param params.onSubmit - Callback function executed after successful save (for form cleanup)
+   * @param params.editPaletteId - ID of the stored palette being edited; omit to create a new palette
+   *
+   * @throws Will catch and handle any storage or navigation errors internally
+   *
+   * @example
+   * ```typescript
+   * await submitPalette({
+   *   formValues: { name: "Ocean", mode: "light", description: "Beach vibes" },
+   *   colorCount: 3,
+   *   onSubmit: () => form.reset()
+   * });
+   * ```
+   */
+  const submitPalette = async ({
+    formValues,
+    colorCount,
+    onSubmit,
+    editPaletteId,
+  }: {
+    formValues: PaletteFormFields;
+    colorCount: number;
+    onSubmit: () => void;
+    editPaletteId?: string;
+  }) => {
+    try {
+      // Extract colors with their metadata from form data (eliminates the need for duplicate parameters)
+      const colors = extractPaletteColors(formValues, colorCount);
+
+      // In edit mode the original palette provides the ID and creation date
+      const existingPalette = editPaletteId
+        ? (storedPalettes ?? []).find((storedPalette) => storedPalette.id === editPaletteId)
+        : undefined;
+
+      if (editPaletteId && !existingPalette) {
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "The palette you are editing no longer exists",
+        });
+        return;
+      }
+
+      // Transform form data into the storage format with generated metadata
+      const palette: StoredPalette = {
+        ...existingPalette, // Keeps fields the form does not edit (e.g. the linked variant)
+        id: existingPalette?.id ?? Date.now().toString(), // Simple timestamp-based ID (sufficient for personal use)
+        name: formValues.name,
+        description: formValues.description,
+        mode: formValues.mode as "light" | "dark", // Type assertion for validated enum value
+        keywords: formValues.keywords || [], // Default to empty array if no keywords provided
+        collectionId: formValues.collection || undefined, // Unassigned when no collection is picked
+        // Pre-validated colors, kept exactly as typed next to their canonical hex value (with their copy statistics)
+        colors: existingPalette ? carryOverColorUsage(colors, existingPalette.colors) : colors,
+        createdAt: existingPalette?.createdAt ?? new Date().toISOString(), // ISO timestamp for consistent date handling
+        ...(existingPalette && { updatedAt: new Date().toISOString() }),
+      };
+
+      // Warn instead of saving when the colors duplicate another stored palette (edits only when the colors changed)
+      const colorsChanged =
+        !existingPalette ||
+        getNormalizedColors(existingPalette).join(",") !== colors.map((color) => color.normalized).join(",");
+      const duplicate = colorsChanged ? findDuplicatePalette(colors, storedPalettes ?? [], palette.id) : undefined;
+      if (duplicate) {
+        push(
+          <DuplicatePaletteWarning
+            palette={palette}
+            duplicate={duplicate}
+            onSaveAnyway={handleWarningAction(async () => {
+              pop();
+              await savePalette(palette, existingPalette, onSubmit);
+            })}
+            onOpenExisting={handleWarningAction(() => openPalettesView(duplicate.palette.id))}
+            onMergeKeywords={handleWarningAction(() => mergeKeywords(palette, duplicate, onSubmit))}
+          />,
+        );
+        return;
+      }
+
+      await savePalette(palette, existingPalette, onSubmit);
+    } catch (error) {
+      // Log error for debugging while showing user-friendly message
+      console.error("Error saving palette:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to save color palette",
+      });
+      // Note: We don't re-throw the error to prevent form component crashes
+      // The error is logged and user is notified, allowing them to retry
+    }
+  };
+
+  return {
+    submitPalette,
+  };
+}
@@ -0,0 +1,79 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { StoredPalette } from "../types";
+import { loadPaletteLibrary, QuarantinedRecord, savePalettes, saveQuarantine } from "../utils/paletteStorage";
+
+/**
+ * Custom hook giving access to the stored color palettes.
+ *
+ * Loads the palette library through the versioned storage layer, which migrates data
+ * saved by older versions of the extension and quarantines records that fail
+ * validation, so every consumer works with valid {@link StoredPalette} objects.
+ *
+ * The loaded palettes are shared through Raycast's cache, so views pushed on top of
+ * each other (e.g. the palettes list and a palette's color list) stay in sync after
+ * any of them saves.
+ *
+ * @returns An object containing:
+ * - `palettes`: Valid stored palettes (undefined until first loaded)
+ * - `setPalettes`: Function to persist a new list of palettes
+ * - `quarantined`: Records rejected by validation, to report to the user
+ * - `discardQuarantined`: Function to permanently delete a quarantined record
+ * - `isLoading`: Whether the palettes are still being read from storage
+ *
+ * @example
+ * ```typescript
+ * const { palettes, setPalettes, isLoading } = usePalettes();
+ * await setPalettes([newPalette, ...(palettes ?? [])]);
+ * ```
+ */
+export function usePalettes() {
+  const [palettes, setCachedPalettes] = useCachedState<StoredPalette[] | undefined>("color-palettes-list", undefined);
+  const [quarantined, setQuarantined] = useCachedState<QuarantinedRecord[]>("color-palettes-quarantine", []);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadPaletteLibrary()
+      .then((library) => {
+        setCachedPalettes(library.palettes);
+        setQuarantined(library.quarantined);
+      })
+      .catch((error) => {
+        console.error("Error loading palettes:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "Failed to load color palettes",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Persists a new list of palettes and shares it with every mounted view.
+   */
+  const setPalettes = async (updatedPalettes: StoredPalette[]) => {
+    await savePalettes(updatedPalettes);
+    setCachedPalettes(updatedPalettes);
+  };
+
+  /**
+   * Permanently deletes a quarantined record.
+   *
+   * @param index - Position of the record in `quarantined`
+   */
+  const discardQuarantined = async (index: number) => {
+    const remaining = quarantined.filter((_, recordIndex) => recordIndex !== index);
+    await saveQuarantine(remaining);
+    setQuarantined(remaining);
+  };
+
+  return {
+    palettes,
+    setPalettes,
+    quarantined,
+    discardQuarantined,
+    isLoading,
+  };
+}
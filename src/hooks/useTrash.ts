@@ -0,0 +1,63 @@
+import { showToast, Toast } from "@raycast/api";
+import { useCachedState } from "@raycast/utils";
+import { useEffect, useState } from "react";
+import { StoredPalette, TrashedPalette } from "../types";
+import { loadTrash } from "../utils/paletteStorage";
+import { getTrashRetentionDays, purgePalettes, restorePalettes, trashPalette, TrashState } from "../utils/paletteTrash";
+
+/**
+ * Custom hook giving access to the trash of deleted palettes.
+ *
+ * Loads the trash (purging entries older than the retention preference) and exposes
+ * the trash operations. After every operation both the trash and the palette list are
+ * updated in Raycast's cache, so any mounted view using {@link usePalettes} refreshes too.
+ *
+ * @returns An object containing:
+ * - `trash`: Trashed palettes, most recently deleted first (undefined until first loaded)
+ * - `deletePalette`: Moves a palette to the trash
+ * - `restoreFromTrash`: Puts trashed palettes back in the list
+ * - `purgeFromTrash`: Permanently deletes trashed palettes
+ * - `isLoading`: Whether the trash is still being read from storage
+ *
+ * @example
+ * ```typescript
+ * const { deletePalette, restoreFromTrash } = useTrash();
+ * await deletePalette(palette.id);
+ * await restoreFromTrash([palette.id]);
+ * ```
+ */
+export function useTrash() {
+  const [trash, setTrash] = useCachedState<TrashedPalette[] | undefined>("color-palettes-trash", undefined);
+  const [, setPalettes] = useCachedState<StoredPalette[] | undefined>("color-palettes-list", undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadTrash(getTrashRetentionDays())
+      .then(setTrash)
+      .catch((error) => {
+        console.error("Error loading trash:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "Failed to load the trash",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Shares the result of a trash operation with every mounted view.
+   */
+  const applyState = (state: TrashState) => {
+    setPalettes(state.palettes);
+    setTrash(state.trash);
+  };
+
+  return {
+    trash,
+    deletePalette: async (paletteId: string) => applyState(await trashPalette(paletteId)),
+    restoreFromTrash: async (paletteIds: string[]) => applyState(await restorePalettes(paletteIds)),
+    purgeFromTrash: async (paletteIds: string[]) => applyState(await purgePalettes(paletteIds)),
+    isLoading,
+  };
+}
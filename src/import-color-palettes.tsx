@@ -0,0 +1,84 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { readFile } from "fs/promises";
+import { basename, extname } from "path";
+import { ImportPreviewList } from "./components/ImportPreviewList";
+import { ImportedPalette } from "./types";
+import { IMPORT_FILE_EXTENSIONS, parsePaletteFile } from "./utils/importPalettes";
+
+/**
+ * Color Palette Import Command
+ *
+ * Reads Adobe ASE, GIMP GPL and JSON swatch files and shows a preview of the
+ * resulting palettes before anything is written to local storage.
+ */
+export default function Command() {
+  const { push } = useNavigation();
+
+  /**
+   * Parses every selected file and opens the import preview.
+   * Files that fail to parse are reported without aborting the others.
+   */
+  const handleSubmit = async (values: { files: string[] }) => {
+    const files = (values.files ?? []).filter((file) => IMPORT_FILE_EXTENSIONS.includes(extname(file).toLowerCase()));
+    if (files.length === 0) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Please choose at least one .ase, .gpl or .json file",
+      });
+      return;
+    }
+
+    const palettes: ImportedPalette[] = [];
+    const failedFiles: string[] = [];
+
+    for (const file of files) {
+      try {
+        palettes.push(...parsePaletteFile(file, await readFile(file)));
+      } catch (error) {
+        console.error(`Error importing ${file}:`, error);
+        failedFiles.push(basename(file));
+      }
+    }
+
+    if (failedFiles.length > 0) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Some files could not be read",
+        message: failedFiles.join(", "),
+      });
+    }
+
+    if (palettes.length === 0) {
+      if (failedFiles.length === 0) {
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "No colors found in the selected files",
+        });
+      }
+      return;
+    }
+
+    push(<ImportPreviewList palettes={palettes} />);
+  };
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Preview Import" icon={Icon.Eye} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Import Color Palettes from swatch files" />
+      <Form.FilePicker
+        id="files"
+        title="Files"
+        info="Adobe Swatch Exchange (.ase), GIMP Palette (.gpl) or JSON files. Every swatch group becomes a Color Palette named after the group."
+        allowMultipleSelection
+        canChooseDirectories={false}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,109 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, Keyboard, List, showToast, Toast } from "@raycast/api";
+import { CollectionForm } from "./components/CollectionForm";
+import { useCollections } from "./hooks/useCollections";
+import { usePalettes } from "./hooks/usePalettes";
+import { PaletteCollection } from "./types";
+import { getCollectionIcon } from "./utils/collections";
+import { formatDate } from "./utils/formatDate";
+
+/**
+ * Manage Collections Command
+ *
+ * Lists palette collections with their palette count, and lets the user create,
+ * rename or delete them. Deleting a collection keeps its palettes as unassigned.
+ */
+export default function Command() {
+  const { collections, deleteCollection, isLoading } = useCollections();
+  const { palettes } = usePalettes();
+
+  /**
+   * Counts the palettes assigned to a collection.
+   */
+  const countPalettes = (collectionId: string) =>
+    (palettes ?? []).filter((palette) => palette.collectionId === collectionId).length;
+
+  /**
+   * Deletes a collection after confirmation, keeping its palettes.
+   */
+  const handleDelete = async (collection: PaletteCollection) => {
+    const count = countPalettes(collection.id);
+    const confirmed = await confirmAlert({
+      title: `Delete "${collection.name}"?`,
+      message:
+        count > 0
+          ? `Its ${count} palette${count > 1 ? "s are" : " is"} kept and moved to Unassigned.`
+          : "The collection is empty.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteCollection(collection.id);
+      showToast({
+        style: Toast.Style.Success,
+        title: "Collection Deleted",
+        message: collection.name,
+      });
+    } catch (error) {
+      console.error("Error deleting collection:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to delete the collection",
+      });
+    }
+  };
+
+  const createAction = (
+    <Action.Push
+      title="Create Collection"
+      icon={Icon.NewFolder}
+      target={<CollectionForm />}
+      shortcut={Keyboard.Shortcut.Common.New}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Collections" searchBarPlaceholder="Search collections...">
+      <List.EmptyView
+        icon={Icon.Folder}
+        title="No Collections"
+        description="Create a collection to group palettes by project or brand"
+        actions={<ActionPanel>{createAction}</ActionPanel>}
+      />
+      {(collections ?? []).map((collection) => {
+        const count = countPalettes(collection.id);
+        return (
+          <List.Item
+            key={collection.id}
+            icon={getCollectionIcon(collection)}
+            title={collection.name}
+            accessories={[
+              { text: `${count} palette${count === 1 ? "" : "s"}` },
+              { text: formatDate(collection.createdAt), tooltip: "Created" },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Edit Collection"
+                  icon={Icon.Pencil}
+                  target={<CollectionForm collection={collection} />}
+                  shortcut={Keyboard.Shortcut.Common.Edit}
+                />
+                {createAction}
+                <Action
+                  title="Delete Collection"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  onAction={() => handleDelete(collection)}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,208 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, Keyboard, List, showToast, Toast } from "@raycast/api";
+import { useState } from "react";
+import { RenameKeywordForm } from "./components/RenameKeywordForm";
+import { useKeywordManagement } from "./hooks/useKeywordManagement";
+import { KeywordUsage } from "./utils/keywordOperations";
+
+/**
+ * Manage Keywords Command
+ *
+ * Lists every keyword with the number of palettes using it. Keywords can be renamed,
+ * merged into another keyword or deleted, and every change is applied to all palettes.
+ * Orphan keywords (in the keyword list but used by no palette) are grouped separately.
+ * Auto-tagging adds the keywords suggested from their colors to every existing palette.
+ */
+export default function Command() {
+  const { keywords, renameKeyword, mergeKeywords, deleteKeywords, autoTagPalettes, isLoading } = useKeywordManagement();
+
+  const used = keywords.filter(({ count }) => count > 0);
+  const orphans = keywords.filter(({ count }) => count === 0);
+
+  /** Keyword whose "Merge into…" submenu is open; merge targets are only listed for it */
+  const [mergeSource, setMergeSource] = useState<string>();
+
+  /**
+   * Runs a keyword operation with user feedback.
+   *
+   * @returns Whether the operation succeeded
+   */
+  const runOperation = async (operation: () => Promise<void>, success: string, failure: string) => {
+    try {
+      await operation();
+      showToast({ style: Toast.Style.Success, title: "Keywords Updated", message: success });
+      return true;
+    } catch (error) {
+      console.error("Error updating keywords:", error);
+      showToast({ style: Toast.Style.Failure, title: "Error", message: failure });
+      return false;
+    }
+  };
+
+  /**
+   * Deletes keywords from every palette after confirmation.
+   */
+  const handleDelete = async (items: KeywordUsage[]) => {
+    const paletteCount = items.reduce((total, { count }) => total + count, 0);
+    const confirmed = await confirmAlert({
+      title: items.length > 1 ? `Delete ${items.length} Keywords?` : `Delete "${items[0].keyword}"?`,
+      message:
+        paletteCount > 0
+          ? `${items.length > 1 ? "The keywords are" : "The keyword is"} removed from ${paletteCount} palette${paletteCount === 1 ? "" : "s"}. The palettes are kept.`
+          : `No palette uses ${items.length > 1 ? "them" : "it"}.`,
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    const names = items.map(({ keyword }) => keyword);
+    await runOperation(
+      () => deleteKeywords(names),
+      `${names.length} keyword${names.length === 1 ? "" : "s"} deleted`,
+      "Failed to delete keywords",
+    );
+  };
+
+  /**
+   * Merges a keyword into another one after confirmation.
+   */
+  const handleMerge = async (source: KeywordUsage, target: KeywordUsage) => {
+    const confirmed = await confirmAlert({
+      title: `Merge "${source.keyword}" into "${target.keyword}"?`,
+      message: `${source.count} palette${source.count === 1 ? "" : "s"} will use "${target.keyword}" instead.`,
+      icon: Icon.Tag,
+      primaryAction: { title: "Merge" },
+    });
+    if (!confirmed) return;
+
+    await runOperation(
+      () => mergeKeywords([source.keyword], target.keyword),
+      `"${source.keyword}" merged into "${target.keyword}"`,
+      "Failed to merge keywords",
+    );
+  };
+
+  /**
+   * Adds the suggested keywords to every palette after confirmation.
+   */
+  const handleAutoTag = async () => {
+    const confirmed = await confirmAlert({
+      title: "Auto-Tag Palettes?",
+      message:
+        "Keywords describing their colors (e.g. warm, pastel, high-contrast, blue) are added to every palette. Existing keywords are kept.",
+      icon: Icon.Wand,
+      primaryAction: { title: "Auto-Tag" },
+    });
+    if (!confirmed) return;
+
+    try {
+      const taggedCount = await autoTagPalettes();
+      showToast({
+        style: Toast.Style.Success,
+        title: "Palettes Auto-Tagged",
+        message:
+          taggedCount > 0
+            ? `New keywords added to ${taggedCount} palette${taggedCount === 1 ? "" : "s"}`
+            : "Every palette already has its suggested keywords",
+      });
+    } catch (error) {
+      console.error("Error auto-tagging palettes:", error);
+      showToast({ style: Toast.Style.Failure, title: "Error", message: "Failed to auto-tag palettes" });
+    }
+  };
+
+  const autoTagAction = (
+    <Action
+      title="Auto-Tag Palettes"
+      icon={Icon.Wand}
+      onAction={handleAutoTag}
+      shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+    />
+  );
+
+  /**
+   * Renders a keyword with its actions.
+   */
+  const renderKeyword = (item: KeywordUsage) => (
+    <List.Item
+      key={item.keyword}
+      icon={item.count > 0 ? Icon.Tag : Icon.XMarkTopRightSquare}
+      title={item.keyword}
+      accessories={[{ text: `${item.count} palette${item.count === 1 ? "" : "s"}` }]}
+      actions={
+        <ActionPanel>
+          <Action.Push
+            title="Rename Keyword"
+            icon={Icon.Pencil}
+            shortcut={Keyboard.Shortcut.Common.Edit}
+            target={
+              <RenameKeywordForm
+                keyword={item.keyword}
+                count={item.count}
+                keywords={keywords.map(({ keyword }) => keyword)}
+                onRename={(newName) =>
+                  runOperation(
+                    () => renameKeyword(item.keyword, newName),
+                    `"${item.keyword}" renamed to "${newName}"`,
+                    "Failed to rename the keyword",
+                  )
+                }
+              />
+            }
+          />
+          <ActionPanel.Submenu
+            title="Merge into…"
+            icon={Icon.ArrowRight}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+            onOpen={() => setMergeSource(item.keyword)}
+          >
+            {mergeSource === item.keyword &&
+              keywords
+                .filter((target) => target.keyword !== item.keyword)
+                .map((target) => (
+                  <Action
+                    key={target.keyword}
+                    title={`${target.keyword} (${target.count})`}
+                    icon={Icon.Tag}
+                    onAction={() => handleMerge(item, target)}
+                  />
+                ))}
+          </ActionPanel.Submenu>
+          <Action
+            title="Delete Keyword"
+            icon={Icon.Trash}
+            style={Action.Style.Destructive}
+            onAction={() => handleDelete([item])}
+            shortcut={Keyboard.Shortcut.Common.Remove}
+          />
+          {orphans.length > 0 && (
+            <Action
+              title="Delete All Orphan Keywords"
+              icon={Icon.XMarkCircle}
+              style={Action.Style.Destructive}
+              onAction={() => handleDelete(orphans)}
+              shortcut={Keyboard.Shortcut.Common.RemoveAll}
+            />
+          )}
+          {autoTagAction}
+        </ActionPanel>
+      }
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Keywords" searchBarPlaceholder="Search keywords...">
+      <List.EmptyView
+        icon={Icon.Tag}
+        title="No Keywords"
+        description="Add keywords when saving a color palette, or auto-tag your palettes"
+        actions={<ActionPanel>{autoTagAction}</ActionPanel>}
+      />
+      <List.Section title="In Use" subtitle={String(used.length)}>
+        {used.map(renderKeyword)}
+      </List.Section>
+      <List.Section title="Orphans" subtitle="Not used by any palette">
+        {orphans.map(renderKeyword)}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,70 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api";
+import { readFile } from "fs/promises";
+import { RestoreSummary } from "./components/RestoreSummary";
+import { parseBackup, RESTORE_MODES, RestoreMode } from "./utils/libraryBackup";
+
+/**
+ * Library Restore Command
+ *
+ * Reads a backup made with the Backup Library command, verifies it and shows a
+ * summary of the changes for the chosen restore mode before anything is written.
+ */
+export default function Command() {
+  const { push } = useNavigation();
+
+  /**
+   * Reads and verifies the selected backup, then opens the restore summary.
+   */
+  const handleSubmit = async (values: { file: string[]; mode: string }) => {
+    const file = values.file?.[0];
+    if (!file) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Please choose a backup file",
+      });
+      return;
+    }
+
+    try {
+      const backup = parseBackup(await readFile(file, "utf8"));
+      push(<RestoreSummary backup={backup} mode={values.mode as RestoreMode} />);
+    } catch (error) {
+      console.error("Error reading backup:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Cannot restore this file",
+        message: error instanceof Error ? error.message : "Failed to read the backup file",
+      });
+    }
+  };
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Review Restore" icon={Icon.Eye} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Restore your Color Palettes from a backup file" />
+      <Form.FilePicker
+        id="file"
+        title="Backup File"
+        info="A .json file saved with the Backup Library command"
+        allowMultipleSelection={false}
+        canChooseDirectories={false}
+      />
+      <Form.Dropdown
+        id="mode"
+        title="Restore Mode"
+        info={RESTORE_MODES.map(({ title, description }) => `${title}: ${description}`).join("\n\n")}
+        storeValue
+      >
+        {RESTORE_MODES.map(({ mode, title }) => (
+          <Form.Dropdown.Item key={mode} value={mode} title={title} />
+        ))}
+      </Form.Dropdown>
+    </Form>
+  );
+}
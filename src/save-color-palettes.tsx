@@ -1,15 +1,32 @@
-import { Form, Icon, LaunchProps } from "@raycast/api";
+import { Form, Icon, LaunchProps, showToast, Toast } from "@raycast/api";
 import { useForm } from "@raycast/utils";
+import { useEffect, useState } from "react";
 import { ColorFieldsSection } from "./components/ColorFieldsSection";
 import { ColorPaletteActions } from "./components/ColorPaletteActions";
 import { KeywordsSection } from "./components/KeywordsSection";
 import { CLEAR_FORM_VALUES } from "./constants";
+import { useCollections } from "./hooks/useCollections";
 import { useColorFields } from "./hooks/useColorFields";
 import { useKeywords } from "./hooks/useKeywords";
 import { usePaletteSubmission } from "./hooks/usePaletteSubmission";
 import { useRealTimeFocus } from "./hooks/useRealTimeFocus";
-import { PaletteFormFields } from "./types";
+import { PaletteFormFields, SavePaletteLaunchContext } from "./types";
+import { getCollectionIcon } from "./utils/collections";
+import { generateColorScale } from "./utils/colorScale";
+import { parseCoolorsUrl } from "./utils/coolors";
+import { insertItem, moveItem, removeItem } from "./utils/arrayHelpers";
+import {
+  ColorFieldEntry,
+  createColorFieldValues,
+  getColorFieldIndex,
+  hasColorDetails,
+  isColorField,
+  readColorFieldEntries,
+} from "./utils/formHelpers";
 import { createValidationRules } from "./utils/formValidation";
+import { splitPastedColors } from "./utils/findColors";
+import { generateHarmony, HarmonyScheme } from "./utils/harmony";
+import { suggestKeywords } from "./utils/keywordSuggestions";
 
 /**
  * Color Palette Creation Command
@@ -18,25 +35,36 @@ import { createValidationRules } from "./utils/formValidation";
  * Uses custom hooks for separation of concerns and clean component composition.
  *
  * @param props.draftValues - Previously saved form data for resuming interrupted sessions
+ * @param props.launchContext - Optional context; `editPaletteId` switches the form to in-place edit mode
  */
-export default function Command(props: LaunchProps<{ draftValues: PaletteFormFields }>) {
+export default function Command(
+  props: LaunchProps<{ draftValues: PaletteFormFields; launchContext: SavePaletteLaunchContext }>,
+) {
   const { draftValues } = props;
+  const editPaletteId = props.launchContext?.editPaletteId;
 
   // === State Management Hooks ===
   // Each hook has a single responsibility following React best practices
 
   /** Manages dynamic color field state */
-  const { colorFieldCount, addColorField, removeColorField, resetColorFields } = useColorFields(draftValues);
+  const { colorFieldCount, addColorField, removeColorField, resetColorFields, ensureColorFieldCount } =
+    useColorFields(draftValues);
 
   /** Handles keyword parsing and management */
   const { keywords, updateKeywords } = useKeywords(draftValues);
 
+  /** Collections the palette can be assigned to */
+  const { collections } = useCollections();
+
   /** Encapsulates palette submission logic */
   const { submitPalette } = usePaletteSubmission();
 
   /** Tracks currently focused form field and manages draft restoration */
   const { currentFocusedField, effectiveFocusedField, createFocusHandlers, setFocusedField } = useRealTimeFocus();
 
+  /** Whether the name, role and note fields of each color are shown (on when the draft already uses them) */
+  const [showColorDetails, setShowColorDetails] = useState(() => hasColorDetails(draftValues));
+
   // === Form Management ===
   // Raycast's form hook with custom validation and submission handling
   const {
@@ -52,6 +80,7 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
         formValues: values,
         colorCount: colorFieldCount,
         onSubmit: handleClearForm,
+        editPaletteId,
       });
     },
     validation: createValidationRules(colorFieldCount),
@@ -69,7 +98,7 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
       return null;
     }
 
-    const colorKeys = Object.keys(draftValues).filter((key) => key.startsWith("color"));
+    const colorKeys = Object.keys(draftValues).filter(isColorField);
     const colorFieldsWithValues = colorKeys.filter((key) => draftValues[key as keyof PaletteFormFields]);
 
     if (colorFieldsWithValues.length > 0) {
@@ -87,7 +116,7 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
    */
   const getEffectiveFocusedColor = (): { id: number; value: string } | undefined => {
     const focusedField = effectiveFocusedField;
-    if (focusedField && focusedField.startsWith("color")) {
+    if (focusedField && isColorField(focusedField)) {
       // Extract the color index from the field name (e.g., "color1" -> 1)
       const colorIndex = parseInt(focusedField.replace("color", ""));
       const fieldValue = values[focusedField as keyof PaletteFormFields];
@@ -105,6 +134,23 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
     return undefined;
   };
 
+  /**
+   * Returns the 1-based index of the effectively focused color field, also when one of its
+   * name, role or note fields is focused (undefined when no color field has focus).
+   */
+  const getFocusedColorIndex = (): number | undefined => {
+    const colorIndex = effectiveFocusedField ? getColorFieldIndex(effectiveFocusedField) : null;
+    return colorIndex && colorIndex <= colorFieldCount ? colorIndex : undefined;
+  };
+
+  /**
+   * Returns the 1-based index of the last color field holding a value (0 when all are empty).
+   */
+  const getLastFilledColorIndex = (): number =>
+    Array.from({ length: colorFieldCount }, (_, index) => index + 1)
+      .filter((index) => values[`color${index}`])
+      .reduce((last, index) => Math.max(last, index), 0);
+
   const autoFocusField = getAutoFocusField();
 
   // === Local Event Handlers ===
@@ -117,6 +163,20 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
     reset(CLEAR_FORM_VALUES);
   };
 
+  /**
+   * Writes several colors into consecutive color fields, adding fields as needed.
+   *
+   * @param startIndex - 1-based index of the first field to fill
+   * @param colors - Colors to write, in order
+   */
+  const handleFillColorFields = (startIndex: number, colors: string[]) => {
+    ensureColorFieldCount(startIndex + colors.length - 1);
+    colors.forEach((color, offset) => {
+      setFormValues(`color${startIndex + offset}` as keyof PaletteFormFields, color);
+    });
+    setFocusedField(`color${startIndex + colors.length - 1}`);
+  };
+
   // === Local Event Handlers ===
 
   /**
@@ -140,8 +200,11 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
   const handleRemoveColorField = () => {
     if (colorFieldCount > 1) {
       // Clear the value of the last color field before removing it
-      const lastColorField = `color${colorFieldCount}` as keyof PaletteFormFields;
+      const lastColorField = `color${colorFieldCount}` as const;
       setFormValues(lastColorField, "");
+      setFormValues(`${lastColorField}Name`, "");
+      setFormValues(`${lastColorField}Role`, "");
+      setFormValues(`${lastColorField}Note`, "");
 
       // Remove the color field from the UI
       removeColorField();
@@ -152,6 +215,146 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
     }
   };
 
+  /**
+   * Writes reordered color entries back into the numbered color fields (values and metadata),
+   * clearing any field past the last entry, and focuses the given color field.
+   *
+   * @param entries - Color field entries in their new order
+   * @param focusIndex - 1-based index of the color field to focus afterwards
+   */
+  const handleWriteColorEntries = (entries: ColorFieldEntry[], focusIndex: number) => {
+    const fieldValues = createColorFieldValues(entries, colorFieldCount);
+    Object.entries(fieldValues).forEach(([key, value]) => {
+      setFormValues(key as keyof PaletteFormFields, value);
+    });
+    setFocusedField(`color${focusIndex}`);
+  };
+
+  /**
+   * Moves the focused color (with its name, role and note) one field up or down.
+   *
+   * @param offset - -1 to move up, 1 to move down
+   */
+  const handleMoveColor = (offset: -1 | 1) => {
+    const colorIndex = getFocusedColorIndex();
+    const targetIndex = colorIndex ? colorIndex + offset : 0;
+    if (!colorIndex || targetIndex < 1 || targetIndex > colorFieldCount) return;
+
+    const entries = readColorFieldEntries(values, colorFieldCount);
+    handleWriteColorEntries(moveItem(entries, colorIndex - 1, targetIndex - 1), targetIndex);
+  };
+
+  /**
+   * Inserts an empty color field right after the focused one and focuses it.
+   */
+  const handleInsertColorAfter = () => {
+    const colorIndex = getFocusedColorIndex() ?? colorFieldCount;
+    const entries = insertItem(readColorFieldEntries(values, colorFieldCount), colorIndex, {
+      value: "",
+      name: "",
+      role: "",
+      note: "",
+    });
+
+    addColorField();
+    handleWriteColorEntries(entries, colorIndex + 1);
+  };
+
+  /**
+   * Removes the focused color field and shifts the following colors up.
+   * Focus moves to the color that takes its place (or the new last color).
+   */
+  const handleRemoveFocusedColor = () => {
+    const colorIndex = getFocusedColorIndex();
+    if (!colorIndex || colorFieldCount <= 1) return;
+
+    const entries = removeItem(readColorFieldEntries(values, colorFieldCount), colorIndex - 1);
+    handleWriteColorEntries(entries, Math.min(colorIndex, colorFieldCount - 1));
+    removeColorField();
+  };
+
+  /**
+   * Replaces the text pasted into a color field with the colors it holds. The first color
+   * stays in that field, with its name, role and note; the others are inserted right after
+   * it, shifting the following colors down.
+   *
+   * @param colorIndex - 1-based index of the field the colors were pasted into
+   * @param colors - Colors found in the pasted text, in order
+   */
+  const handleInsertPastedColors = (colorIndex: number, colors: string[]) => {
+    const [first, ...rest] = colors;
+    const entries = rest.reduce(
+      (result, value, offset) => insertItem(result, colorIndex + offset, { value, name: "", role: "", note: "" }),
+      readColorFieldEntries(values, colorFieldCount).map((entry, index) =>
+        index === colorIndex - 1 ? { ...entry, value: first } : entry,
+      ),
+    );
+
+    ensureColorFieldCount(entries.length);
+    handleWriteColorEntries(entries, colorIndex + rest.length);
+  };
+
+  /**
+   * Generates a harmony scheme from the focused color and appends it after the last filled color field.
+   */
+  const handleGenerateHarmony = (scheme: HarmonyScheme) => {
+    const focusedColor = getEffectiveFocusedColor();
+    const colors = focusedColor ? generateHarmony(focusedColor.value, scheme) : null;
+
+    if (!focusedColor || !colors) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "The focused color is not a valid color",
+      });
+      return;
+    }
+    if (colors.length === 0) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "No new colors",
+        message: "This scheme does not produce new colors for a neutral color",
+      });
+      return;
+    }
+
+    handleFillColorFields(getLastFilledColorIndex() + 1, colors);
+
+    showToast({
+      style: Toast.Style.Success,
+      title: "Harmony generated",
+      message: `${colors.length} color${colors.length > 1 ? "s" : ""} added from ${focusedColor.value}`,
+    });
+  };
+
+  /**
+   * Appends a 50-950 tint and shade scale of the focused color after the last filled color field.
+   */
+  const handleGenerateScale = () => {
+    const focusedColor = getEffectiveFocusedColor();
+    const scale = focusedColor ? generateColorScale(focusedColor.value) : null;
+
+    if (!focusedColor || !scale) {
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "The focused color is not a valid color",
+      });
+      return;
+    }
+
+    handleFillColorFields(
+      getLastFilledColorIndex() + 1,
+      scale.map((step) => step.color),
+    );
+
+    showToast({
+      style: Toast.Style.Success,
+      title: "Scale generated",
+      message: `50-950 scale of ${focusedColor.value} added`,
+    });
+  };
+
   /**
    * Handles keyword input parsing and form state updates.
    */
@@ -160,6 +363,40 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
     setFormValues("keywords", (prev: string[]) => [...prev, ...updatedKeywords]);
   };
 
+  /** Keywords suggested from the entered colors that the palette does not carry yet */
+  const suggestedKeywords = suggestKeywords(
+    readColorFieldEntries(values, colorFieldCount).map((entry) => entry.value),
+  ).filter((keyword) => !values.keywords.includes(keyword));
+
+  /**
+   * Adds every suggested keyword to the palette and to the global keyword list.
+   */
+  const handleAddSuggestedKeywords = async () => {
+    await handleUpdateKeywords(suggestedKeywords.join(","));
+    showToast({
+      style: Toast.Style.Success,
+      title: "Keywords added",
+      message: suggestedKeywords.join(", "),
+    });
+  };
+
+  // === Effects ===
+
+  /**
+   * Expands a coolors.co URL, or several colors, pasted into any color field into separate
+   * color fields inserted from the field it was pasted into.
+   */
+  useEffect(() => {
+    for (let index = 1; index <= colorFieldCount; index++) {
+      const value = values[`color${index}`];
+      const colors = parseCoolorsUrl(value) ?? splitPastedColors(value);
+      if (colors) {
+        handleInsertPastedColors(index, colors);
+        break;
+      }
+    }
+  }, [values, colorFieldCount]);
+
   return (
     <Form
       actions={
@@ -167,14 +404,26 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
           handleSubmit={handleSubmit}
           addColor={handleAddColorField}
           removeColor={handleRemoveColorField}
+          focusedColorIndex={getFocusedColorIndex()}
+          moveColor={handleMoveColor}
+          insertColorAfter={handleInsertColorAfter}
+          removeFocusedColor={handleRemoveFocusedColor}
           clearForm={handleClearForm}
           colorFieldCount={colorFieldCount}
           focusedColor={getEffectiveFocusedColor()}
+          generateHarmony={handleGenerateHarmony}
+          generateScale={handleGenerateScale}
+          isEditing={Boolean(editPaletteId)}
+          showColorDetails={showColorDetails}
+          toggleColorDetails={() => setShowColorDetails((prev) => !prev)}
+          suggestedKeywords={suggestedKeywords}
+          addSuggestedKeywords={handleAddSuggestedKeywords}
         />
       }
-      enableDrafts
+      navigationTitle={editPaletteId ? "Edit Color Palette" : undefined}
+      enableDrafts={!editPaletteId}
     >
-      <Form.Description text="Insert your Color Palette" />
+      <Form.Description text={editPaletteId ? "Edit your Color Palette" : "Insert your Color Palette"} />
       <Form.TextField
         {...itemProps.name}
         title="Name*"
@@ -191,11 +440,28 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
         <Form.Dropdown.Item value="light" title="Light Color Palette" icon={Icon.Sun} />
         <Form.Dropdown.Item value="dark" title="Dark Color Palette" icon={Icon.Moon} />
       </Form.Dropdown>
+      <Form.Dropdown
+        {...itemProps.collection}
+        title="Collection"
+        info="Group the palette with others of the same project or brand. Collections are created with the Manage Collections command."
+        {...createFocusHandlers("collection")}
+      >
+        <Form.Dropdown.Item value="" title="None" icon={Icon.Tray} />
+        {(collections ?? []).map((collection) => (
+          <Form.Dropdown.Item
+            key={collection.id}
+            value={collection.id}
+            title={collection.name}
+            icon={getCollectionIcon(collection)}
+          />
+        ))}
+      </Form.Dropdown>
       <KeywordsSection
         keywords={keywords}
         itemProps={itemProps}
         updateKeywords={handleUpdateKeywords}
         createFocusHandlers={createFocusHandlers}
+        suggestedKeywords={suggestedKeywords}
       />
       <ColorFieldsSection
         colorFieldCount={colorFieldCount}
@@ -203,6 +469,7 @@ export default function Command(props: LaunchProps<{ draftValues: PaletteFormFie
         autoFocusField={autoFocusField}
         currentFocusedField={currentFocusedField}
         createFocusHandlers={createFocusHandlers}
+        showColorDetails={showColorDetails}
       />
     </Form>
   );
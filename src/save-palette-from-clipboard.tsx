@@ -0,0 +1,58 @@
+import { Clipboard, Form, Icon, LaunchType, List, showToast, Toast } from "@raycast/api";
+import { useEffect, useState } from "react";
+import SaveColorPalettesCommand from "./save-color-palettes";
+import { PaletteFormFields } from "./types";
+import { findColorsInText } from "./utils/findColors";
+import { inferMode } from "./utils/importPalettes";
+import { normalizeColor } from "./utils/parseColor";
+
+/**
+ * Save Palette from Clipboard Command
+ *
+ * Scans the clipboard text (chat messages, CSS snippets, design tool exports...) for
+ * color literals and opens the save form prefilled with them, in order of appearance
+ * and without duplicates.
+ */
+export default function Command() {
+  /** Colors found in the clipboard; undefined while the clipboard is being read */
+  const [colors, setColors] = useState<string[]>();
+
+  useEffect(() => {
+    Clipboard.readText()
+      .then((text) => setColors(findColorsInText(text ?? "")))
+      .catch((error) => {
+        console.error("Error reading the clipboard:", error);
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Error",
+          message: "Failed to read the clipboard",
+        });
+        setColors([]);
+      });
+  }, []);
+
+  if (!colors) return <Form isLoading />;
+
+  if (colors.length === 0) {
+    return (
+      <List>
+        <List.EmptyView
+          icon={Icon.Clipboard}
+          title="No Colors in Clipboard"
+          description="Copy text containing colors, such as #FF5733 or rgb(0 128 255), and run the command again"
+        />
+      </List>
+    );
+  }
+
+  /** Form values for saving the colors as a new palette */
+  const formData: PaletteFormFields = {
+    name: "",
+    description: "",
+    mode: inferMode(colors.map((color) => normalizeColor(color) ?? color)),
+    keywords: [],
+    ...Object.fromEntries(colors.map((color, index) => [`color${index + 1}`, color])),
+  };
+
+  return <SaveColorPalettesCommand launchType={LaunchType.UserInitiated} arguments={{}} draftValues={formData} />;
+}
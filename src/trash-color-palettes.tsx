@@ -0,0 +1,129 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, Keyboard, List, showToast, Toast } from "@raycast/api";
+import { useTrash } from "./hooks/useTrash";
+import { formatDate } from "./utils/formatDate";
+import { getPaletteColorName } from "./utils/paletteColors";
+import { getTrashRetentionDays } from "./utils/paletteTrash";
+
+/**
+ * Color Palette Trash Command
+ *
+ * Lists deleted palettes so they can be restored or permanently purged.
+ * Palettes older than the "Trash Retention" preference are purged automatically.
+ */
+export default function Command() {
+  const { trash, restoreFromTrash, purgeFromTrash, isLoading } = useTrash();
+  const retentionDays = getTrashRetentionDays();
+
+  /**
+   * Restores trashed palettes with user feedback.
+   */
+  const handleRestore = async (paletteIds: string[]) => {
+    try {
+      await restoreFromTrash(paletteIds);
+      showToast({
+        style: Toast.Style.Success,
+        title: "Restored",
+        message: `${paletteIds.length} color palette${paletteIds.length > 1 ? "s" : ""} restored`,
+      });
+    } catch (error) {
+      console.error("Error restoring palettes:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to restore color palettes",
+      });
+    }
+  };
+
+  /**
+   * Permanently deletes trashed palettes after confirmation.
+   */
+  const handlePurge = async (paletteIds: string[]) => {
+    const confirmed = await confirmAlert({
+      title: paletteIds.length > 1 ? `Empty Trash (${paletteIds.length} Palettes)?` : "Delete Palette Permanently?",
+      message: "This cannot be undone.",
+      icon: Icon.Trash,
+      primaryAction: { title: "Delete", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) return;
+
+    try {
+      await purgeFromTrash(paletteIds);
+      showToast({
+        style: Toast.Style.Success,
+        title: "Deleted",
+        message: `${paletteIds.length} color palette${paletteIds.length > 1 ? "s" : ""} permanently deleted`,
+      });
+    } catch (error) {
+      console.error("Error purging palettes:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to delete color palettes",
+      });
+    }
+  };
+
+  const allIds = (trash ?? []).map((entry) => entry.palette.id);
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Trash" searchBarPlaceholder="Search deleted palettes...">
+      <List.EmptyView
+        icon={Icon.Trash}
+        title="Trash Is Empty"
+        description={
+          retentionDays > 0
+            ? `Deleted palettes stay here for ${retentionDays} day${retentionDays > 1 ? "s" : ""}`
+            : "Deleted palettes stay here until you delete them permanently"
+        }
+      />
+      {(trash ?? []).map(({ palette, deletedAt }) => (
+        <List.Item
+          key={`${palette.id}-${deletedAt}`}
+          icon={palette.mode === "dark" ? Icon.Moon : Icon.Sun}
+          title={palette.name}
+          subtitle={palette.description}
+          keywords={palette.keywords}
+          accessories={[
+            ...palette.colors.slice(0, 5).map((color) => ({
+              icon: { source: Icon.CircleFilled, tintColor: color.normalized },
+              tooltip: `${color.value} — ${getPaletteColorName(color)}`,
+            })),
+            { text: formatDate(deletedAt), tooltip: "Deleted" },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Restore Palette"
+                icon={Icon.ArrowCounterClockwise}
+                onAction={() => handleRestore([palette.id])}
+              />
+              <Action
+                title="Delete Permanently"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                onAction={() => handlePurge([palette.id])}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+              />
+              <ActionPanel.Section>
+                <Action
+                  title="Restore All"
+                  icon={Icon.ArrowCounterClockwise}
+                  onAction={() => handleRestore(allIds)}
+                  shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                />
+                <Action
+                  title="Empty Trash"
+                  icon={Icon.XMarkCircle}
+                  style={Action.Style.Destructive}
+                  onAction={() => handlePurge(allIds)}
+                  shortcut={Keyboard.Shortcut.Common.RemoveAll}
+                />
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -19,9 +19,13 @@
  *   description: "Blue ocean colors",
  *   mode: "light",
  *   keywords: ["blue", "ocean", "nature"],
+ *   collection: "1642583000000",
  *   color1: "#1E90FF",
+ *   color1Role: "primary",
  *   color2: "#87CEEB",
- *   color3: "#F0F8FF"
+ *   color2Name: "Sky",
+ *   color3: "#F0F8FF",
+ *   color3Note: "Use for large surfaces only"
  * };
  * ```
  */
@@ -34,8 +38,61 @@ export type PaletteFormFields = {
   mode: string;
   /** Array of tags/keywords for organization and search */
   keywords: string[];
+  /** ID of the collection the palette belongs to; empty string for none */
+  collection?: string;
   /** Dynamic color fields with numbered keys (color1, color2, etc.) */
   [key: `color${number}`]: string;
+  /** Optional custom name of each color (color1Name, color2Name, etc.) */
+  [key: `color${number}Name`]: string;
+  /** Optional semantic role of each color (color1Role, color2Role, etc.); empty string for none */
+  [key: `color${number}Role`]: string;
+  /** Optional note attached to each color (color1Note, color2Note, etc.) */
+  [key: `color${number}Note`]: string;
+};
+
+/**
+ * Semantic role a color plays in a palette.
+ */
+export type ColorRole =
+  "primary" | "secondary" | "background" | "surface" | "text" | "accent" | "success" | "warning" | "error";
+
+/**
+ * A single color of a stored palette with its optional metadata.
+ *
+ * @example
+ * ```typescript
+ * const color: PaletteColor = {
+ *   value: "hsl(222 47% 11%)",
+ *   normalized: "#0F172A",
+ *   name: "Night",
+ *   role: "background",
+ *   note: "Main app background",
+ * };
+ * ```
+ */
+export type PaletteColor = {
+  /** Color value exactly as entered by the user */
+  value: string;
+  /** Canonical hex value of `value` */
+  normalized: string;
+  /** Optional custom name (overrides the automatic color name) */
+  name?: string;
+  /** Optional semantic role */
+  role?: ColorRole;
+  /** Optional free-form note */
+  note?: string;
+  /** How often and when the color was copied (absent until first copied) */
+  usage?: UsageStats;
+};
+
+/**
+ * Copy statistics of a palette or of a single color.
+ */
+export type UsageStats = {
+  /** Number of times it was copied */
+  copyCount: number;
+  /** ISO timestamp of the last copy */
+  lastCopiedAt: string;
 };
 
 /**
@@ -53,7 +110,11 @@ export type PaletteFormFields = {
  *   description: "Blue ocean colors",
  *   mode: "light",
  *   keywords: ["blue", "ocean", "nature"],
- *   colors: ["#1E90FF", "#87CEEB", "#F0F8FF"],
+ *   colors: [
+ *     { value: "#1E90FF", normalized: "#1E90FF", role: "primary" },
+ *     { value: "skyblue", normalized: "#87CEEB", name: "Sky" },
+ *     { value: "hsl(208 100% 97%)", normalized: "#F0F8FF", role: "background" }
+ *   ],
  *   createdAt: "2025-01-19T10:00:00.000Z"
  * };
  * ```
@@ -69,8 +130,128 @@ export type StoredPalette = {
   mode: "light" | "dark";
   /** Array of tags/keywords for organization and search */
   keywords: string[];
-  /** Array of hex color codes in the palette */
-  colors: string[];
+  /** Colors of the palette, in order, with their metadata */
+  colors: PaletteColor[];
   /** ISO timestamp of when the palette was created */
   createdAt: string;
+  /** ISO timestamp of the last in-place edit (absent for never-edited palettes) */
+  updatedAt?: string;
+  /** ID of the opposite-mode counterpart of this palette, if one was generated */
+  linkedPaletteId?: string;
+  /** ID of the collection the palette belongs to (absent for unassigned palettes) */
+  collectionId?: string;
+  /** Whether the palette is pinned to the top of the list */
+  favorite?: boolean;
+  /** How often and when any of the palette colors were copied (absent until first copied) */
+  usage?: UsageStats;
+};
+
+/**
+ * Named group of palettes, e.g. a project or a brand.
+ *
+ * @example
+ * ```typescript
+ * const collection: PaletteCollection = {
+ *   id: "1642583000000",
+ *   name: "Client A Website",
+ *   icon: "Globe",
+ *   color: "Blue",
+ *   createdAt: "2025-01-19T09:00:00.000Z"
+ * };
+ * ```
+ */
+export type PaletteCollection = {
+  /** Unique identifier (timestamp-based, like palette IDs) */
+  id: string;
+  /** Display name of the collection */
+  name: string;
+  /** Optional name of a Raycast `Icon` shown next to the collection */
+  icon?: string;
+  /** Optional name of a Raycast `Color` used to tint the icon */
+  color?: string;
+  /** ISO timestamp of when the collection was created */
+  createdAt: string;
+};
+
+/**
+ * Launch context accepted by the save command.
+ *
+ * When `editPaletteId` is set, the form works in edit mode: submitting replaces the
+ * stored palette with that id in place instead of creating a new one.
+ *
+ * @example
+ * ```typescript
+ * <SaveColorPalettesCommand
+ *   launchType={LaunchType.UserInitiated}
+ *   arguments={{}}
+ *   draftValues={formData}
+ *   launchContext={{ editPaletteId: palette.id }}
+ * />
+ * ```
+ */
+export type SavePaletteLaunchContext = {
+  /** Identifier of the stored palette being edited */
+  editPaletteId?: string;
+};
+
+/**
+ * Launch context of the palettes view command.
+ *
+ * @example
+ * ```typescript
+ * const context: ViewPalettesLaunchContext = { selectPaletteId: palette.id };
+ * open(`raycast://extensions/.../view-color-palettes?context=${encodeURIComponent(JSON.stringify(context))}`);
+ * ```
+ */
+export type ViewPalettesLaunchContext = {
+  /** Identifier of the palette to select when the list opens */
+  selectPaletteId?: string;
+};
+
+/**
+ * Internal color representation shared by every color utility.
+ *
+ * All supported CSS syntaxes (hex, named colors, rgb, hsl, hwb, lab, lch, oklab,
+ * oklch and `color()`) are parsed into gamma-encoded sRGB channels in the 0-1 range
+ * plus an alpha channel, so the rest of the extension only deals with one model.
+ *
+ * @example
+ * ```typescript
+ * const tomato: RgbaColor = { r: 1, g: 0.388, b: 0.278, alpha: 1 };
+ * ```
+ */
+export type RgbaColor = {
+  /** Red channel (0-1) */
+  r: number;
+  /** Green channel (0-1) */
+  g: number;
+  /** Blue channel (0-1) */
+  b: number;
+  /** Opacity (0 = transparent, 1 = opaque) */
+  alpha: number;
+};
+
+/**
+ * Three-component color coordinates in an arbitrary color space (e.g. XYZ, Lab, OKLCh).
+ */
+export type ColorTriplet = [number, number, number];
+
+/**
+ * Palette read from an external swatch file, before it is committed to storage.
+ *
+ * Contains everything a {@link StoredPalette} needs except the generated identifier
+ * and timestamps, which are assigned when the import is confirmed.
+ */
+export type ImportedPalette = Omit<StoredPalette, "id" | "createdAt" | "updatedAt">;
+
+/**
+ * A deleted palette kept in the trash until it is restored or purged.
+ */
+export type TrashedPalette = {
+  /** The palette as it was when deleted */
+  palette: StoredPalette;
+  /** ISO timestamp of the deletion */
+  deletedAt: string;
+  /** 0-based position the palette had in the list, used to put it back in place */
+  position: number;
 };
@@ -0,0 +1,65 @@
+/**
+ * Array helper utilities for the Color Palette Storage extension.
+ *
+ * Small immutable operations used to reorder the colors of a palette, both in the
+ * save form (where colors live in numbered fields) and in stored palettes.
+ */
+
+/**
+ * Returns a copy of an array with one item moved to a new position.
+ *
+ * Out-of-range positions leave the array unchanged.
+ *
+ * @param items - The source array
+ * @param from - 0-based index of the item to move
+ * @param to - 0-based index the item should end up at
+ * @returns A new array with the item moved
+ *
+ * @example
+ * ```typescript
+ * moveItem(["a", "b", "c"], 2, 0); // ["c", "a", "b"]
+ * ```
+ */
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from < 0 || from >= items.length || to < 0 || to >= items.length) {
+    return [...items];
+  }
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+}
+
+/**
+ * Returns a copy of an array with an item inserted at the given position.
+ *
+ * @param items - The source array
+ * @param index - 0-based index the new item should end up at (clamped to the array bounds)
+ * @param item - The item to insert
+ * @returns A new array with the item inserted
+ *
+ * @example
+ * ```typescript
+ * insertItem(["a", "c"], 1, "b"); // ["a", "b", "c"]
+ * ```
+ */
+export function insertItem<T>(items: T[], index: number, item: T): T[] {
+  const position = Math.min(Math.max(index, 0), items.length);
+  return [...items.slice(0, position), item, ...items.slice(position)];
+}
+
+/**
+ * Returns a copy of an array without the item at the given position.
+ *
+ * @param items - The source array
+ * @param index - 0-based index of the item to remove
+ * @returns A new array without the item
+ *
+ * @example
+ * ```typescript
+ * removeItem(["a", "b", "c"], 1); // ["a", "c"]
+ * ```
+ */
+export function removeItem<T>(items: T[], index: number): T[] {
+  return items.filter((_, itemIndex) => itemIndex !== index);
+}
@@ -0,0 +1,71 @@
+/**
+ * Collection helpers for the Color Palette Storage extension.
+ *
+ * Collections group palettes by project or brand. Each collection can have an icon
+ * and a tint color, stored as the names of Raycast `Icon` and `Color` members so the
+ * stored data does not depend on Raycast's internal icon identifiers.
+ */
+
+import { Color, Icon, Image } from "@raycast/api";
+import { PaletteCollection, StoredPalette } from "../types";
+
+/**
+ * Icons offered for collections, in picker order.
+ */
+export const COLLECTION_ICONS: { name: keyof typeof Icon; title: string }[] = [
+  { name: "Folder", title: "Folder" },
+  { name: "Globe", title: "Website" },
+  { name: "Mobile", title: "Mobile App" },
+  { name: "Desktop", title: "Desktop App" },
+  { name: "Brush", title: "Brand" },
+  { name: "Star", title: "Star" },
+  { name: "Heart", title: "Heart" },
+  { name: "Person", title: "Client" },
+  { name: "Building", title: "Company" },
+  { name: "Book", title: "Book" },
+  { name: "Camera", title: "Photography" },
+  { name: "Leaf", title: "Nature" },
+];
+
+/**
+ * Tint colors offered for collections, in picker order.
+ */
+export const COLLECTION_COLORS: { name: keyof typeof Color; title: string }[] = [
+  { name: "Red", title: "Red" },
+  { name: "Orange", title: "Orange" },
+  { name: "Yellow", title: "Yellow" },
+  { name: "Green", title: "Green" },
+  { name: "Blue", title: "Blue" },
+  { name: "Purple", title: "Purple" },
+  { name: "Magenta", title: "Magenta" },
+];
+
+/**
+ * Returns the icon of a collection, tinted with its color.
+ * Unknown or missing icons fall back to a folder.
+ *
+ * @param collection - The collection
+ * @returns An image usable as list, dropdown or form item icon
+ */
+export function getCollectionIcon(collection: PaletteCollection): Image.ImageLike {
+  const icon = COLLECTION_ICONS.find(({ name }) => name === collection.icon);
+  const color = COLLECTION_COLORS.find(({ name }) => name === collection.color);
+  return {
+    source: icon ? Icon[icon.name] : Icon.Folder,
+    ...(color && { tintColor: Color[color.name] }),
+  };
+}
+
+/**
+ * Returns the collection a palette belongs to, if it still exists.
+ *
+ * @param palette - The palette
+ * @param collections - Every collection
+ * @returns The collection, or undefined for unassigned palettes (or deleted collections)
+ */
+export function findPaletteCollection(
+  palette: StoredPalette,
+  collections: PaletteCollection[],
+): PaletteCollection | undefined {
+  return palette.collectionId ? collections.find((collection) => collection.id === palette.collectionId) : undefined;
+}
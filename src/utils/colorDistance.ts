@@ -0,0 +1,96 @@
+/**
+ * Perceptual color distance utilities for the Color Palette Storage extension.
+ *
+ * This module implements the CIEDE2000 color difference formula, the industry
+ * standard for "how different do these two colors look". As a rule of thumb a
+ * ΔE00 below 1 is imperceptible, around 2-3 is noticeable side by side and above
+ * 10 the colors are clearly different.
+ */
+
+import { ColorTriplet, RgbaColor } from "../types";
+import { srgbToLab } from "./colorSpaces";
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const hueAngle = (a: number, b: number) => (a === 0 && b === 0 ? 0 : (toDegrees(Math.atan2(b, a)) + 360) % 360);
+
+/**
+ * Computes the CIEDE2000 difference between two CIE Lab colors.
+ *
+ * @param first - First color as [L, a, b]
+ * @param second - Second color as [L, a, b]
+ * @returns The ΔE00 distance (0 = identical)
+ *
+ * @example
+ * ```typescript
+ * deltaE2000([50, 2.6772, -79.7751], [50, 0, -82.7485]); // 2.0425
+ * ```
+ */
+export function deltaE2000([l1, a1, b1]: ColorTriplet, [l2, a2, b2]: ColorTriplet): number {
+  const pow25To7 = Math.pow(25, 7);
+
+  const chromaMean = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(Math.pow(chromaMean, 7) / (Math.pow(chromaMean, 7) + pow25To7)));
+  const a1Prime = (1 + g) * a1;
+  const a2Prime = (1 + g) * a2;
+
+  const c1 = Math.hypot(a1Prime, b1);
+  const c2 = Math.hypot(a2Prime, b2);
+  const h1 = hueAngle(a1Prime, b1);
+  const h2 = hueAngle(a2Prime, b2);
+
+  const deltaL = l2 - l1;
+  const deltaC = c2 - c1;
+
+  let deltaHue = 0;
+  if (c1 * c2 !== 0) {
+    deltaHue = h2 - h1;
+    if (deltaHue > 180) deltaHue -= 360;
+    else if (deltaHue < -180) deltaHue += 360;
+  }
+  const deltaH = 2 * Math.sqrt(c1 * c2) * Math.sin(toRadians(deltaHue / 2));
+
+  const lMean = (l1 + l2) / 2;
+  const cMean = (c1 + c2) / 2;
+
+  let hMean = h1 + h2;
+  if (c1 * c2 !== 0) {
+    if (Math.abs(h1 - h2) <= 180) hMean = (h1 + h2) / 2;
+    else hMean = h1 + h2 < 360 ? (h1 + h2 + 360) / 2 : (h1 + h2 - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hMean - 30)) +
+    0.24 * Math.cos(toRadians(2 * hMean)) +
+    0.32 * Math.cos(toRadians(3 * hMean + 6)) -
+    0.2 * Math.cos(toRadians(4 * hMean - 63));
+
+  const deltaTheta = 30 * Math.exp(-Math.pow((hMean - 275) / 25, 2));
+  const rc = 2 * Math.sqrt(Math.pow(cMean, 7) / (Math.pow(cMean, 7) + pow25To7));
+  const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2));
+  const sc = 1 + 0.045 * cMean;
+  const sh = 1 + 0.015 * cMean * t;
+  const rt = -Math.sin(toRadians(2 * deltaTheta)) * rc;
+
+  return Math.sqrt(
+    Math.pow(deltaL / sl, 2) + Math.pow(deltaC / sc, 2) + Math.pow(deltaH / sh, 2) + rt * (deltaC / sc) * (deltaH / sh),
+  );
+}
+
+/**
+ * Computes the CIEDE2000 difference between two parsed colors (alpha is ignored).
+ *
+ * @param first - First color
+ * @param second - Second color
+ * @returns The ΔE00 distance (0 = identical)
+ *
+ * @example
+ * ```typescript
+ * colorDistance(parseColor("#FF0000")!, parseColor("#FE0000")!); // ~0.2
+ * ```
+ */
+export function colorDistance(first: RgbaColor, second: RgbaColor): number {
+  return deltaE2000(srgbToLab([first.r, first.g, first.b]), srgbToLab([second.r, second.g, second.b]));
+}
@@ -0,0 +1,222 @@
+/**
+ * Offline color naming utilities for the Color Palette Storage extension.
+ *
+ * This module names any color after the perceptually closest entry of a bundled
+ * dictionary made of the CSS named colors and the xkcd color survey names. Distances
+ * are measured with CIEDE2000, so the chosen name is the one that looks most alike.
+ */
+
+import { ColorTriplet } from "../types";
+import { deltaE2000 } from "./colorDistance";
+import { srgbToLab } from "./colorSpaces";
+import { CSS_NAMED_COLORS } from "./namedColors";
+import { formatHex, parseColor } from "./parseColor";
+import { XKCD_COLORS } from "./xkcdColors";
+
+/**
+ * Result of a color name lookup.
+ */
+export type ColorNameMatch = {
+  /** Display name of the closest dictionary color */
+  name: string;
+  /** Hex value of the closest dictionary color */
+  hex: string;
+  /** CIEDE2000 distance between the input and the dictionary color */
+  distance: number;
+};
+
+type DictionaryEntry = { name: string; hex: string; lab: ColorTriplet };
+
+/** Lazily built dictionary with precomputed Lab values */
+let dictionary: DictionaryEntry[] | null = null;
+
+/** Lookup cache keyed by canonical hex, since palettes are named on every render */
+const matchCache = new Map<string, ColorNameMatch>();
+
+/** Words that make up the concatenated CSS color names (e.g. "lightgoldenrodyellow") */
+const CSS_NAME_WORDS = [
+  "alice",
+  "almond",
+  "antique",
+  "aqua",
+  "aquamarine",
+  "azure",
+  "beige",
+  "bisque",
+  "black",
+  "blanched",
+  "blue",
+  "blush",
+  "brown",
+  "burlywood",
+  "cadet",
+  "chartreuse",
+  "chiffon",
+  "chocolate",
+  "coral",
+  "cornflower",
+  "cornsilk",
+  "cream",
+  "crimson",
+  "cyan",
+  "dark",
+  "deep",
+  "dim",
+  "dodger",
+  "drab",
+  "firebrick",
+  "floral",
+  "forest",
+  "fuchsia",
+  "gainsboro",
+  "ghost",
+  "gold",
+  "goldenrod",
+  "gray",
+  "green",
+  "grey",
+  "honeydew",
+  "hot",
+  "indian",
+  "indigo",
+  "ivory",
+  "khaki",
+  "lace",
+  "lavender",
+  "lawn",
+  "lemon",
+  "light",
+  "lime",
+  "linen",
+  "magenta",
+  "maroon",
+  "medium",
+  "midnight",
+  "mint",
+  "misty",
+  "moccasin",
+  "navajo",
+  "navy",
+  "old",
+  "olive",
+  "orange",
+  "orchid",
+  "pale",
+  "papaya",
+  "peach",
+  "peru",
+  "pink",
+  "plum",
+  "powder",
+  "puff",
+  "purple",
+  "rebecca",
+  "red",
+  "rose",
+  "rosy",
+  "royal",
+  "saddle",
+  "salmon",
+  "sandy",
+  "sea",
+  "seashell",
+  "sienna",
+  "silver",
+  "sky",
+  "slate",
+  "smoke",
+  "snow",
+  "spring",
+  "steel",
+  "tan",
+  "teal",
+  "thistle",
+  "tomato",
+  "turquoise",
+  "violet",
+  "wheat",
+  "whip",
+  "white",
+  "yellow",
+].sort((first, second) => second.length - first.length);
+
+const toTitleCase = (name: string) => name.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+
+/**
+ * Splits a concatenated CSS color name into words using greedy longest-match.
+ * Returns the name unchanged if it cannot be fully split.
+ */
+const splitCssName = (name: string): string => {
+  const words: string[] = [];
+  let index = 0;
+  while (index < name.length) {
+    const word = CSS_NAME_WORDS.find((candidate) => name.startsWith(candidate, index));
+    if (!word) return name;
+    words.push(word);
+    index += word.length;
+  }
+  return words.join(" ");
+};
+
+const getDictionary = (): DictionaryEntry[] => {
+  if (!dictionary) {
+    // CSS names come first so that exact CSS colors keep their well-known name
+    const entries = [
+      ...Object.entries(CSS_NAMED_COLORS).map(([name, hex]) => [splitCssName(name), hex]),
+      ...Object.entries(XKCD_COLORS),
+    ];
+    dictionary = entries.map(([name, hex]) => {
+      const color = parseColor(hex)!;
+      return { name: toTitleCase(name), hex, lab: srgbToLab([color.r, color.g, color.b]) };
+    });
+  }
+  return dictionary;
+};
+
+/**
+ * Finds the dictionary color closest to the given color.
+ *
+ * @param color - Color in any supported syntax (alpha is ignored)
+ * @returns The closest named color, or null if the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * findColorName("#663399"); // { name: "Rebecca Purple", hex: "#663399", distance: 0 }
+ * findColorName("#1F6357"); // { name: "Dark Green Blue", hex: "#1F6357", distance: 0 }
+ * ```
+ */
+export function findColorName(color: string): ColorNameMatch | null {
+  const parsed = parseColor(color);
+  if (!parsed) return null;
+
+  const key = formatHex({ ...parsed, alpha: 1 });
+  const cached = matchCache.get(key);
+  if (cached) return cached;
+
+  const lab = srgbToLab([parsed.r, parsed.g, parsed.b]);
+  let best: ColorNameMatch = { name: "", hex: "", distance: Infinity };
+  for (const entry of getDictionary()) {
+    const distance = deltaE2000(lab, entry.lab);
+    if (distance < best.distance) {
+      best = { name: entry.name, hex: entry.hex, distance };
+    }
+  }
+
+  matchCache.set(key, best);
+  return best;
+}
+
+/**
+ * Returns the display name of the closest dictionary color.
+ *
+ * @param color - Color in any supported syntax
+ * @returns The color name, or "Unknown" if the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * getColorName("#FF5733"); // "Tomato"
+ * ```
+ */
+export function getColorName(color: string): string {
+  return findColorName(color)?.name ?? "Unknown";
+}
@@ -0,0 +1,74 @@
+/**
+ * Tint and shade scale utilities for the Color Palette Storage extension.
+ *
+ * This module builds Tailwind-style 50-950 ramps from a single color. Steps are laid
+ * out on a fixed OKLCh lightness curve so every ramp has evenly perceived steps, while
+ * hue and chroma come from the base color. The base color itself is kept exactly at
+ * the step whose lightness is closest to it.
+ */
+
+import { oklchToSrgbInGamut, srgbToOklch } from "./colorSpaces";
+import { formatHex, parseColor } from "./parseColor";
+
+/**
+ * One step of a generated scale.
+ */
+export type ColorScaleStep = {
+  /** Tailwind-style step name (50, 100, ..., 950) */
+  step: number;
+  /** Hex color of the step */
+  color: string;
+  /** Whether this step is the unmodified base color */
+  isBase: boolean;
+};
+
+/** Scale steps with their target OKLCh lightness and relative chroma */
+const SCALE_STEPS: { step: number; lightness: number; chroma: number }[] = [
+  { step: 50, lightness: 0.971, chroma: 0.15 },
+  { step: 100, lightness: 0.936, chroma: 0.3 },
+  { step: 200, lightness: 0.885, chroma: 0.5 },
+  { step: 300, lightness: 0.808, chroma: 0.72 },
+  { step: 400, lightness: 0.704, chroma: 0.9 },
+  { step: 500, lightness: 0.637, chroma: 1 },
+  { step: 600, lightness: 0.577, chroma: 1 },
+  { step: 700, lightness: 0.505, chroma: 0.9 },
+  { step: 800, lightness: 0.444, chroma: 0.78 },
+  { step: 900, lightness: 0.396, chroma: 0.66 },
+  { step: 950, lightness: 0.258, chroma: 0.48 },
+];
+
+/**
+ * Generates a 50-950 tint and shade scale for a color.
+ *
+ * @param baseColor - Base color in any supported syntax
+ * @returns The 11 scale steps from lightest to darkest, or null if the color is invalid
+ *
+ * @example
+ * ```typescript
+ * generateColorScale("#3B82F6").map(({ step, color }) => `${step}: ${color}`);
+ * // Returns: ["50: #F0F6FF", ..., "500: #3B82F6", ..., "950: #05214E"]
+ * ```
+ */
+export function generateColorScale(baseColor: string): ColorScaleStep[] | null {
+  const base = parseColor(baseColor);
+  if (!base) return null;
+
+  const [l, c, h] = srgbToOklch([base.r, base.g, base.b]);
+
+  // The base color replaces the step closest to its own lightness
+  const baseIndex = SCALE_STEPS.reduce(
+    (closest, { lightness }, index) =>
+      Math.abs(lightness - l) < Math.abs(SCALE_STEPS[closest].lightness - l) ? index : closest,
+    0,
+  );
+  // Peak chroma of the ramp, derived from the base color's position on the curve
+  const peakChroma = c / SCALE_STEPS[baseIndex].chroma;
+
+  return SCALE_STEPS.map(({ step, lightness, chroma }, index) => {
+    if (index === baseIndex) {
+      return { step, color: formatHex({ ...base, alpha: 1 }), isBase: true };
+    }
+    const [r, g, b] = oklchToSrgbInGamut([lightness, peakChroma * chroma, h]);
+    return { step, color: formatHex({ r, g, b, alpha: 1 }), isBase: false };
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Color similarity search utilities for the Color Palette Storage extension.
+ *
+ * Palettes are ranked by the CIEDE2000 distance between a searched color and the
+ * closest color of each palette, so "that palette with the teal" can be found
+ * without remembering its name.
+ */
+
+import { RgbaColor, StoredPalette } from "../types";
+import { colorDistance } from "./colorDistance";
+import { parseColor } from "./parseColor";
+
+/** Prefix forcing a color search, needed for named colors such as `similar:teal` */
+const SIMILAR_PREFIX = "similar:";
+
+/**
+ * Tolerances offered in the search bar dropdown, as maximum ΔE00 values ("0" = no limit).
+ * The second one is the default.
+ */
+export const SIMILARITY_TOLERANCES: { value: string; title: string }[] = [
+  { value: "3", title: "Nearly Identical (ΔE ≤ 3)" },
+  { value: "10", title: "Similar (ΔE ≤ 10)" },
+  { value: "20", title: "Related (ΔE ≤ 20)" },
+  { value: "0", title: "Any Distance" },
+];
+
+/**
+ * The closest color of a palette to a searched color.
+ */
+export type ColorMatch = {
+  /** Index of the closest color in the palette */
+  colorIndex: number;
+  /** CIEDE2000 distance between the searched color and the closest color */
+  distance: number;
+};
+
+/**
+ * Reads the color to search for from the search text.
+ *
+ * Hex and functional notations (`#0aa`, `rgb(0 170 170)`, `oklch(...)`) start a color
+ * search on their own. Plain words are searched as text, unless prefixed with `similar:`
+ * (e.g. `similar:teal`), so keywords such as "red" keep working.
+ *
+ * @param text - The search text
+ * @returns The parsed color, or null when the text is not a color search
+ */
+export function parseColorSearch(text: string): RgbaColor | null {
+  const trimmed = text.trim();
+  if (trimmed.toLowerCase().startsWith(SIMILAR_PREFIX)) {
+    return parseColor(trimmed.slice(SIMILAR_PREFIX.length));
+  }
+  return trimmed.startsWith("#") || trimmed.includes("(") ? parseColor(trimmed) : null;
+}
+
+/**
+ * Finds the color of a palette that looks the most like a target color.
+ *
+ * @param palette - The palette to search
+ * @param target - The searched color
+ * @returns The closest color, or undefined when no color of the palette can be parsed
+ */
+export function findClosestColor(palette: StoredPalette, target: RgbaColor): ColorMatch | undefined {
+  return palette.colors.reduce<ColorMatch | undefined>((closest, color, colorIndex) => {
+    const parsed = parseColor(color.normalized);
+    if (!parsed) return closest;
+    const distance = colorDistance(target, parsed);
+    return !closest || distance < closest.distance ? { colorIndex, distance } : closest;
+  }, undefined);
+}
+
+/**
+ * Ranks palettes by the distance of their closest color to a target color.
+ *
+ * @param palettes - The palettes to rank
+ * @param target - The searched color
+ * @param tolerance - Maximum ΔE00 of the closest color; 0 keeps every palette
+ * @returns Matching palettes with their closest color, closest first
+ *
+ * @example
+ * ```typescript
+ * rankPalettesBySimilarity(palettes, parseColor("#008080")!, 10);
+ * // Returns: [{ palette: oceanPalette, match: { colorIndex: 2, distance: 1.4 } }, ...]
+ * ```
+ */
+export function rankPalettesBySimilarity(
+  palettes: StoredPalette[],
+  target: RgbaColor,
+  tolerance: number,
+): { palette: StoredPalette; match: ColorMatch }[] {
+  return palettes
+    .map((palette) => ({ palette, match: findClosestColor(palette, target) }))
+    .filter((result): result is { palette: StoredPalette; match: ColorMatch } =>
+      Boolean(result.match && (tolerance <= 0 || result.match.distance <= tolerance)),
+    )
+    .sort((first, second) => first.match.distance - second.match.distance);
+}
@@ -0,0 +1,311 @@
+/**
+ * Color space conversion utilities for the Color Palette Storage extension.
+ *
+ * This module implements the conversions defined by CSS Color Module Level 4 between
+ * gamma-encoded sRGB and the other spaces the extension understands: linear sRGB,
+ * CIE XYZ (D65 and D50), CIE Lab/LCh, OKLab/OKLCh and the wide-gamut RGB spaces
+ * usable in `color()`. CIE XYZ D65 is used as the hub for every conversion.
+ *
+ * Matrices and transfer functions follow the sample code published with the specification.
+ */
+
+import { ColorTriplet } from "../types";
+
+/**
+ * 3x3 matrix, stored row by row.
+ */
+export type Matrix3 = [ColorTriplet, ColorTriplet, ColorTriplet];
+
+/**
+ * Multiplies a 3x3 matrix by a column vector.
+ */
+export const multiply = (matrix: Matrix3, [x, y, z]: ColorTriplet): ColorTriplet =>
+  matrix.map((row) => row[0] * x + row[1] * y + row[2] * z) as ColorTriplet;
+
+// === Transfer functions ===
+
+const srgbToLinearChannel = (value: number) => {
+  const abs = Math.abs(value);
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+};
+
+const linearToSrgbChannel = (value: number) => {
+  const abs = Math.abs(value);
+  return abs > 0.0031308 ? Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055) : 12.92 * value;
+};
+
+const a98ToLinearChannel = (value: number) => Math.sign(value) * Math.pow(Math.abs(value), 563 / 256);
+
+const prophotoToLinearChannel = (value: number) => {
+  const abs = Math.abs(value);
+  return abs <= 16 / 512 ? value / 16 : Math.sign(value) * Math.pow(abs, 1.8);
+};
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+const rec2020ToLinearChannel = (value: number) => {
+  const abs = Math.abs(value);
+  return abs < REC2020_BETA * 4.5
+    ? value / 4.5
+    : Math.sign(value) * Math.pow((abs + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45);
+};
+
+// === Matrices ===
+
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.0752914584939978],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+  [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+  [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+  [0, 0, 0.8251046025104601],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+const D65_TO_D50: Matrix3 = [
+  [1.0479297925449969, 0.022946870601609652, -0.05019226628920524],
+  [0.02962780877005599, 0.9904344267538799, -0.017073799063418826],
+  [-0.009243040646204504, 0.015055191490298152, 0.7518742814281371],
+];
+
+const D50_TO_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+
+const XYZ_TO_LMS: Matrix3 = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_OKLAB: Matrix3 = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+const OKLAB_TO_LMS: Matrix3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+
+const LMS_TO_XYZ: Matrix3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+/** D50 reference white used by CIE Lab */
+const D50_WHITE: ColorTriplet = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+// === sRGB <-> XYZ ===
+
+/**
+ * Converts gamma-encoded sRGB channels (0-1) to linear-light sRGB.
+ */
+export const srgbToLinear = (rgb: ColorTriplet): ColorTriplet => rgb.map(srgbToLinearChannel) as ColorTriplet;
+
+/**
+ * Converts linear-light sRGB channels to gamma-encoded sRGB (0-1, unclamped).
+ */
+export const linearToSrgb = (rgb: ColorTriplet): ColorTriplet => rgb.map(linearToSrgbChannel) as ColorTriplet;
+
+/**
+ * Converts gamma-encoded sRGB channels (0-1) to CIE XYZ (D65).
+ */
+export const srgbToXyz = (rgb: ColorTriplet): ColorTriplet => multiply(LINEAR_SRGB_TO_XYZ, srgbToLinear(rgb));
+
+/**
+ * Converts CIE XYZ (D65) to gamma-encoded sRGB channels (unclamped, may be out of gamut).
+ */
+export const xyzToSrgb = (xyz: ColorTriplet): ColorTriplet => linearToSrgb(multiply(XYZ_TO_LINEAR_SRGB, xyz));
+
+/**
+ * Converts linear-light sRGB channels to CIE XYZ (D65), as used by `color(srgb-linear ...)`.
+ */
+export const linearSrgbToXyz = (rgb: ColorTriplet): ColorTriplet => multiply(LINEAR_SRGB_TO_XYZ, rgb);
+
+/**
+ * Converts CIE XYZ D50 to CIE XYZ D65 using the Bradford chromatic adaptation.
+ */
+export const xyzD50ToD65 = (xyz: ColorTriplet): ColorTriplet => multiply(D50_TO_D65, xyz);
+
+/**
+ * Converts CIE XYZ D65 to CIE XYZ D50 using the Bradford chromatic adaptation.
+ */
+export const xyzD65ToD50 = (xyz: ColorTriplet): ColorTriplet => multiply(D65_TO_D50, xyz);
+
+// === Wide-gamut RGB spaces (used by color()) ===
+
+/**
+ * Converts gamma-encoded Display P3 channels to CIE XYZ (D65).
+ */
+export const displayP3ToXyz = (rgb: ColorTriplet): ColorTriplet =>
+  multiply(LINEAR_P3_TO_XYZ, rgb.map(srgbToLinearChannel) as ColorTriplet);
+
+/**
+ * Converts gamma-encoded Adobe RGB (1998) channels to CIE XYZ (D65).
+ */
+export const a98RgbToXyz = (rgb: ColorTriplet): ColorTriplet =>
+  multiply(LINEAR_A98_TO_XYZ, rgb.map(a98ToLinearChannel) as ColorTriplet);
+
+/**
+ * Converts gamma-encoded ProPhoto RGB channels to CIE XYZ (D65).
+ */
+export const prophotoRgbToXyz = (rgb: ColorTriplet): ColorTriplet =>
+  xyzD50ToD65(multiply(LINEAR_PROPHOTO_TO_XYZ_D50, rgb.map(prophotoToLinearChannel) as ColorTriplet));
+
+/**
+ * Converts gamma-encoded Rec. 2020 channels to CIE XYZ (D65).
+ */
+export const rec2020ToXyz = (rgb: ColorTriplet): ColorTriplet =>
+  multiply(LINEAR_REC2020_TO_XYZ, rgb.map(rec2020ToLinearChannel) as ColorTriplet);
+
+// === CIE Lab / LCh ===
+
+/**
+ * Converts CIE Lab (D50, L in 0-100) to CIE XYZ (D65).
+ */
+export const labToXyz = ([l, a, b]: ColorTriplet): ColorTriplet => {
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const x = Math.pow(fx, 3) > LAB_EPSILON ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : l / LAB_KAPPA;
+  const z = Math.pow(fz, 3) > LAB_EPSILON ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_KAPPA;
+
+  return xyzD50ToD65([x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]]);
+};
+
+/**
+ * Converts CIE XYZ (D65) to CIE Lab (D50, L in 0-100).
+ */
+export const xyzToLab = (xyz: ColorTriplet): ColorTriplet => {
+  const [fx, fy, fz] = xyzD65ToD50(xyz).map((value, index) => {
+    const scaled = value / D50_WHITE[index];
+    return scaled > LAB_EPSILON ? Math.cbrt(scaled) : (LAB_KAPPA * scaled + 16) / 116;
+  });
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+/**
+ * Converts polar coordinates (lightness, chroma, hue in degrees) to rectangular ones.
+ * Works for both CIE LCh -> Lab and OKLCh -> OKLab.
+ */
+export const polarToRectangular = ([l, c, h]: ColorTriplet): ColorTriplet => {
+  const radians = (h * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+};
+
+/**
+ * Converts rectangular coordinates to polar ones (hue in degrees, 0-360).
+ * Works for both CIE Lab -> LCh and OKLab -> OKLCh.
+ */
+export const rectangularToPolar = ([l, a, b]: ColorTriplet): ColorTriplet => {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return [l, Math.sqrt(a * a + b * b), (hue + 360) % 360];
+};
+
+// === OKLab / OKLCh ===
+
+/**
+ * Converts OKLab (L in 0-1) to CIE XYZ (D65).
+ */
+export const oklabToXyz = (oklab: ColorTriplet): ColorTriplet =>
+  multiply(LMS_TO_XYZ, multiply(OKLAB_TO_LMS, oklab).map((value) => value ** 3) as ColorTriplet);
+
+/**
+ * Converts CIE XYZ (D65) to OKLab (L in 0-1).
+ */
+export const xyzToOklab = (xyz: ColorTriplet): ColorTriplet =>
+  multiply(LMS_TO_OKLAB, multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as ColorTriplet);
+
+/**
+ * Converts gamma-encoded sRGB channels (0-1) to OKLab.
+ */
+export const srgbToOklab = (rgb: ColorTriplet): ColorTriplet => xyzToOklab(srgbToXyz(rgb));
+
+/**
+ * Converts OKLab to gamma-encoded sRGB channels (unclamped, may be out of gamut).
+ */
+export const oklabToSrgb = (oklab: ColorTriplet): ColorTriplet => xyzToSrgb(oklabToXyz(oklab));
+
+/**
+ * Converts gamma-encoded sRGB channels (0-1) to OKLCh (hue in degrees).
+ */
+export const srgbToOklch = (rgb: ColorTriplet): ColorTriplet => rectangularToPolar(srgbToOklab(rgb));
+
+/**
+ * Converts OKLCh (hue in degrees) to gamma-encoded sRGB channels (unclamped, may be out of gamut).
+ */
+export const oklchToSrgb = (oklch: ColorTriplet): ColorTriplet => oklabToSrgb(polarToRectangular(oklch));
+
+/**
+ * Converts gamma-encoded sRGB channels (0-1) to CIE Lab (D50).
+ */
+export const srgbToLab = (rgb: ColorTriplet): ColorTriplet => xyzToLab(srgbToXyz(rgb));
+
+// === Gamut mapping ===
+
+const isInSrgbGamut = (rgb: ColorTriplet) => rgb.every((channel) => channel >= -0.0001 && channel <= 1.0001);
+
+/**
+ * Converts OKLCh to sRGB, reducing chroma (keeping lightness and hue) until the color
+ * fits in the sRGB gamut. This preserves the perceived lightness and hue far better
+ * than clipping each channel.
+ *
+ * @param oklch - Color as [L (0-1), C, h (degrees)]
+ * @returns Gamma-encoded sRGB channels in the 0-1 range
+ */
+export const oklchToSrgbInGamut = ([l, c, h]: ColorTriplet): ColorTriplet => {
+  const lightness = Math.min(1, Math.max(0, l));
+  let rgb = oklchToSrgb([lightness, c, h]);
+
+  if (!isInSrgbGamut(rgb)) {
+    // Binary search for the largest chroma that stays inside the gamut
+    let low = 0;
+    let high = c;
+    for (let step = 0; step < 24; step++) {
+      const mid = (low + high) / 2;
+      if (isInSrgbGamut(oklchToSrgb([lightness, mid, h]))) low = mid;
+      else high = mid;
+    }
+    rgb = oklchToSrgb([lightness, low, h]);
+  }
+
+  return rgb.map((channel) => Math.min(1, Math.max(0, channel))) as ColorTriplet;
+};
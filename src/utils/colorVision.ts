@@ -0,0 +1,137 @@
+/**
+ * Color vision deficiency (CVD) simulation utilities for the Color Palette Storage extension.
+ *
+ * This module shows how palettes appear to people with the most common forms of color
+ * blindness and flags color pairs that collapse into each other. Dichromacies use the
+ * Machado et al. (2009) matrices at full severity, applied in linear sRGB; achromatopsia
+ * is simulated by reducing every color to its luminance.
+ */
+
+import { RgbaColor, StoredPalette } from "../types";
+import { linearToSrgb, Matrix3, multiply, srgbToLinear } from "./colorSpaces";
+import { colorDistance } from "./colorDistance";
+import { relativeLuminance } from "./contrast";
+import { formatHex, parseColor } from "./parseColor";
+
+/**
+ * Supported color vision deficiencies.
+ */
+export type VisionDeficiency = "protanopia" | "deuteranopia" | "tritanopia" | "achromatopsia";
+
+/**
+ * Pair of palette colors that look alike under a simulated deficiency.
+ */
+export type IndistinguishablePair = {
+  /** Index of the first color in the palette */
+  first: number;
+  /** Index of the second color in the palette */
+  second: number;
+  /** CIEDE2000 distance between the simulated colors */
+  distance: number;
+};
+
+/**
+ * Display metadata for every simulated deficiency, in display order.
+ */
+export const VISION_DEFICIENCIES: { deficiency: VisionDeficiency; title: string; description: string }[] = [
+  { deficiency: "protanopia", title: "Protanopia", description: "No red cones" },
+  { deficiency: "deuteranopia", title: "Deuteranopia", description: "No green cones" },
+  { deficiency: "tritanopia", title: "Tritanopia", description: "No blue cones" },
+  { deficiency: "achromatopsia", title: "Achromatopsia", description: "No color vision" },
+];
+
+/**
+ * ΔE00 below which two simulated colors are considered indistinguishable.
+ * Higher than the just-noticeable difference because UI colors must be told apart at a glance.
+ */
+export const INDISTINGUISHABLE_THRESHOLD = 10;
+
+const DICHROMACY_MATRICES: Record<Exclude<VisionDeficiency, "achromatopsia">, Matrix3> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+const simulate = (color: RgbaColor, deficiency: VisionDeficiency): RgbaColor => {
+  if (deficiency === "achromatopsia") {
+    const [gray] = linearToSrgb([relativeLuminance(color), 0, 0]);
+    return { r: gray, g: gray, b: gray, alpha: color.alpha };
+  }
+
+  const linear = multiply(DICHROMACY_MATRICES[deficiency], srgbToLinear([color.r, color.g, color.b]));
+  const [r, g, b] = linearToSrgb(linear).map((channel) => Math.min(1, Math.max(0, channel)));
+  return { r, g, b, alpha: color.alpha };
+};
+
+/**
+ * Simulates how a single color is perceived with the given deficiency.
+ *
+ * @param color - Color in any supported syntax
+ * @param deficiency - The deficiency to simulate
+ * @returns The simulated color as hex, or null if the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * simulateColor("#FF0000", "achromatopsia"); // "#7F7F7F"
+ * ```
+ */
+export function simulateColor(color: string, deficiency: VisionDeficiency): string | null {
+  const parsed = parseColor(color);
+  return parsed ? formatHex(simulate(parsed, deficiency)) : null;
+}
+
+/**
+ * Simulates every color of a stored palette. Unparseable colors are returned unchanged.
+ *
+ * @param palette - The stored palette
+ * @param deficiency - The deficiency to simulate
+ * @returns Simulated hex colors, aligned with `palette.colors`
+ */
+export function simulatePalette(palette: StoredPalette, deficiency: VisionDeficiency): string[] {
+  return palette.colors.map((color) => simulateColor(color.normalized, deficiency) ?? color.normalized);
+}
+
+/**
+ * Finds all color pairs whose perceptual distance falls below the threshold.
+ *
+ * @param colors - Colors in any supported syntax (typically simulated ones)
+ * @param threshold - Maximum ΔE00 for two colors to be considered indistinguishable
+ * @returns Every conflicting pair, ordered by palette position
+ *
+ * @example
+ * ```typescript
+ * findIndistinguishablePairs(simulatePalette(palette, "deuteranopia"));
+ * // Returns: [{ first: 0, second: 2, distance: 4.1 }]
+ * ```
+ */
+export function findIndistinguishablePairs(
+  colors: string[],
+  threshold = INDISTINGUISHABLE_THRESHOLD,
+): IndistinguishablePair[] {
+  const parsed = colors.map(parseColor);
+  const pairs: IndistinguishablePair[] = [];
+
+  parsed.forEach((first, firstIndex) => {
+    parsed.slice(firstIndex + 1).forEach((second, offset) => {
+      if (!first || !second) return;
+      const distance = colorDistance(first, second);
+      if (distance < threshold) {
+        pairs.push({ first: firstIndex, second: firstIndex + 1 + offset, distance });
+      }
+    });
+  });
+
+  return pairs;
+}
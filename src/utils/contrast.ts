@@ -0,0 +1,145 @@
+/**
+ * Contrast utilities for the Color Palette Storage extension.
+ *
+ * This module computes legibility metrics between pairs of palette colors:
+ * the WCAG 2.x contrast ratio with its AA/AAA conformance levels, and the APCA
+ * lightness contrast (Lc) proposed for WCAG 3. Alpha is ignored: colors are
+ * evaluated as opaque.
+ */
+
+import { RgbaColor } from "../types";
+import { srgbToLinear } from "./colorSpaces";
+import { parseColor } from "./parseColor";
+
+/**
+ * WCAG 2.x conformance level reached by a color pair.
+ */
+export type WcagLevel = "AAA" | "AA" | "Fail";
+
+/**
+ * Contrast metrics for a text color rendered on a background color.
+ */
+export type ContrastResult = {
+  /** WCAG 2.x contrast ratio (1-21) */
+  ratio: number;
+  /** Level reached for normal-size text (AA >= 4.5, AAA >= 7) */
+  normalText: WcagLevel;
+  /** Level reached for large text (AA >= 3, AAA >= 4.5) */
+  largeText: WcagLevel;
+  /** APCA lightness contrast; positive for dark text on light backgrounds, negative otherwise */
+  apca: number;
+};
+
+// APCA 0.0.98G-4g constants
+const APCA = {
+  exponent: 2.4,
+  coefficients: [0.2126729, 0.7151522, 0.072175],
+  normBackground: 0.56,
+  normText: 0.57,
+  reverseText: 0.62,
+  reverseBackground: 0.65,
+  blackThreshold: 0.022,
+  blackClamp: 1.414,
+  scale: 1.14,
+  offset: 0.027,
+  deltaYMin: 0.0005,
+  lowClip: 0.1,
+};
+
+/**
+ * Computes the WCAG relative luminance of a color (0 = black, 1 = white).
+ */
+export const relativeLuminance = (color: RgbaColor): number => {
+  const [r, g, b] = srgbToLinear([color.r, color.g, color.b]);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Computes the WCAG 2.x contrast ratio between two colors (order does not matter).
+ */
+export const contrastRatio = (first: RgbaColor, second: RgbaColor): number => {
+  const [lighter, darker] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+const toLevel = (ratio: number, aa: number, aaa: number): WcagLevel =>
+  ratio >= aaa ? "AAA" : ratio >= aa ? "AA" : "Fail";
+
+const apcaLuminance = (color: RgbaColor): number => {
+  const y = [color.r, color.g, color.b].reduce(
+    (sum, channel, index) => sum + Math.pow(channel, APCA.exponent) * APCA.coefficients[index],
+    0,
+  );
+  return y > APCA.blackThreshold ? y : y + Math.pow(APCA.blackThreshold - y, APCA.blackClamp);
+};
+
+/**
+ * Computes the APCA lightness contrast (Lc) of a text color on a background color.
+ *
+ * @returns Lc value, roughly -108 to 106; 0 when the contrast is negligible
+ */
+export const apcaContrast = (text: RgbaColor, background: RgbaColor): number => {
+  const textY = apcaLuminance(text);
+  const backgroundY = apcaLuminance(background);
+
+  if (Math.abs(backgroundY - textY) < APCA.deltaYMin) return 0;
+
+  if (backgroundY > textY) {
+    // Dark text on a light background
+    const contrast = (Math.pow(backgroundY, APCA.normBackground) - Math.pow(textY, APCA.normText)) * APCA.scale;
+    return contrast < APCA.lowClip ? 0 : (contrast - APCA.offset) * 100;
+  }
+
+  // Light text on a dark background
+  const contrast = (Math.pow(backgroundY, APCA.reverseBackground) - Math.pow(textY, APCA.reverseText)) * APCA.scale;
+  return contrast > -APCA.lowClip ? 0 : (contrast + APCA.offset) * 100;
+};
+
+/**
+ * Evaluates a text/background pair against WCAG 2.x and APCA.
+ *
+ * @param text - Text color in any supported syntax
+ * @param background - Background color in any supported syntax
+ * @returns The contrast metrics, or null if either color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * getContrast("#FFFFFF", "#0F172A");
+ * // Returns: { ratio: 17.85, normalText: "AAA", largeText: "AAA", apca: -106.78 }
+ * ```
+ */
+export function getContrast(text: string, background: string): ContrastResult | null {
+  const textColor = parseColor(text);
+  const backgroundColor = parseColor(background);
+  if (!textColor || !backgroundColor) return null;
+
+  const ratio = contrastRatio(textColor, backgroundColor);
+  return {
+    ratio,
+    normalText: toLevel(ratio, 4.5, 7),
+    largeText: toLevel(ratio, 3, 4.5),
+    apca: apcaContrast(textColor, backgroundColor),
+  };
+}
+
+/**
+ * Checks whether at least one pair of distinct colors is readable as normal text (WCAG AA).
+ *
+ * @param colors - Palette colors in any supported syntax
+ * @returns True if some text/background combination reaches a 4.5:1 ratio
+ *
+ * @example
+ * ```typescript
+ * hasAccessiblePair(["#0F172A", "#F8FAFC"]); // true
+ * hasAccessiblePair(["#FFE4E1", "#FFF0F5"]); // false
+ * ```
+ */
+export function hasAccessiblePair(colors: string[]): boolean {
+  return colors.some((text, textIndex) =>
+    colors.some((background, backgroundIndex) => {
+      if (textIndex === backgroundIndex) return false;
+      const contrast = getContrast(text, background);
+      return contrast !== null && contrast.normalText !== "Fail";
+    }),
+  );
+}
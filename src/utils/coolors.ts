@@ -0,0 +1,77 @@
+/**
+ * Coolors integration utilities for the Color Palette Storage extension.
+ *
+ * This module converts palettes into coolors.co palette URLs and back. Coolors only
+ * understands opaque 6-digit hex colors, so translucent colors are flattened onto
+ * the palette background (white for light palettes, black for dark ones).
+ */
+
+import { RgbaColor } from "../types";
+import { formatHex, parseColor } from "./parseColor";
+
+/** Base URL of the coolors.co palette page */
+const COOLORS_BASE_URL = "https://coolors.co";
+
+/** Maximum number of colors the Coolors generator can display */
+export const COOLORS_MAX_COLORS = 10;
+
+const COOLORS_URL_PATTERN = /coolors\.co\/(?:palette\/|generate\/)?([0-9a-f]{6}(?:-[0-9a-f]{6})*)/i;
+
+/**
+ * Composites a translucent color over an opaque background ("source over").
+ */
+const flattenAlpha = (color: RgbaColor, background: RgbaColor): RgbaColor => ({
+  r: color.r * color.alpha + background.r * (1 - color.alpha),
+  g: color.g * color.alpha + background.g * (1 - color.alpha),
+  b: color.b * color.alpha + background.b * (1 - color.alpha),
+  alpha: 1,
+});
+
+/**
+ * Builds a coolors.co URL showing the given colors.
+ *
+ * Every color is converted to 6-digit hex; translucent colors are flattened onto
+ * white (light mode) or black (dark mode). Unparseable colors are skipped and only
+ * the first {@link COOLORS_MAX_COLORS} colors are included.
+ *
+ * @param colors - Colors in any supported syntax
+ * @param mode - Palette mode, used to pick the flattening background
+ * @returns The coolors.co palette URL
+ *
+ * @example
+ * ```typescript
+ * createCoolorsUrl(["#FF5733", "rgba(0, 0, 0, 0.5)"], "light");
+ * // Returns: "https://coolors.co/ff5733-808080"
+ * ```
+ */
+export function createCoolorsUrl(colors: string[], mode: "light" | "dark"): string {
+  const background: RgbaColor = mode === "dark" ? { r: 0, g: 0, b: 0, alpha: 1 } : { r: 1, g: 1, b: 1, alpha: 1 };
+
+  const hexColors = colors
+    .map(parseColor)
+    .filter((color): color is RgbaColor => color !== null)
+    .slice(0, COOLORS_MAX_COLORS)
+    .map((color) => formatHex(flattenAlpha(color, background)).slice(1).toLowerCase());
+
+  return `${COOLORS_BASE_URL}/${hexColors.join("-")}`;
+}
+
+/**
+ * Extracts the colors from a coolors.co palette URL.
+ *
+ * Accepts generator URLs (`coolors.co/264653-2a9d8f`), palette pages
+ * (`coolors.co/palette/264653-2a9d8f`) and URLs with or without protocol.
+ *
+ * @param text - Text that may contain a coolors.co URL
+ * @returns Uppercase `#RRGGBB` colors, or null if the text is not a coolors URL
+ *
+ * @example
+ * ```typescript
+ * parseCoolorsUrl("https://coolors.co/264653-2a9d8f-e9c46a");
+ * // Returns: ["#264653", "#2A9D8F", "#E9C46A"]
+ * ```
+ */
+export function parseCoolorsUrl(text: string | undefined): string[] | null {
+  const match = text?.trim().match(COOLORS_URL_PATTERN);
+  return match ? match[1].split("-").map((hex) => `#${hex.toUpperCase()}`) : null;
+}
@@ -0,0 +1,194 @@
+/**
+ * Image decoding utilities for the Color Palette Storage extension.
+ *
+ * Images are decoded locally, without any network call:
+ * 1. macOS `sips` converts the PNG or JPEG file to a small sRGB PNG in a temporary folder
+ *    (so large photos, interlaced PNGs and wide-gamut profiles need no special handling)
+ * 2. the PNG is decoded in process with Node's zlib into RGBA pixels
+ */
+
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+import { inflateSync } from "zlib";
+
+/** File extensions accepted for color extraction */
+export const IMAGE_FILE_EXTENSIONS = [".png", ".jpg", ".jpeg"];
+
+/** Longest side, in pixels, images are downscaled to before decoding */
+const MAX_IMAGE_SIZE = 256;
+
+const SRGB_PROFILE = "/System/Library/ColorSync/Profiles/sRGB Profile.icc";
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Number of samples per pixel of each PNG color type */
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Decoded image as 8-bit RGBA pixels, row by row.
+ */
+export type DecodedImage = {
+  width: number;
+  height: number;
+  /** Four bytes (red, green, blue, alpha) per pixel */
+  pixels: Uint8Array;
+};
+
+/**
+ * Predicts a byte from its left, upper and upper-left neighbours (PNG filter type 4).
+ */
+const paeth = (left: number, up: number, upLeft: number) => {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  return distanceUp <= distanceUpLeft ? up : upLeft;
+};
+
+/**
+ * Reverses the per-row filters of inflated PNG data.
+ *
+ * @returns The raw scanlines, without their filter type bytes
+ */
+const unfilter = (data: Buffer, height: number, stride: number, bytesPerPixel: number): Uint8Array => {
+  const rows = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    const previous = row - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? rows[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[previous + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? rows[previous + x - bytesPerPixel] : 0;
+      const predictors = [0, left, up, (left + up) >> 1, paeth(left, up, upLeft)];
+      if (predictors[filter] === undefined) throw new Error(`Unknown PNG filter type ${filter}`);
+      rows[row + x] = (data[source + x] + predictors[filter]) & 0xff;
+    }
+  }
+
+  return rows;
+};
+
+/**
+ * Decodes a non-interlaced PNG image of any color type and bit depth.
+ *
+ * @param buffer - Contents of the PNG file
+ * @returns The image as 8-bit RGBA pixels
+ * @throws Error if the file is not a PNG or uses unsupported features
+ */
+export function decodePng(buffer: Buffer): DecodedImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error("Not a valid PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer = Buffer.alloc(0);
+  let transparency: Buffer = Buffer.alloc(0);
+  const imageData: Buffer[] = [];
+
+  for (let offset = 8; offset + 8 <= buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) throw new Error("Interlaced PNG images are not supported");
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      imageData.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!width || !height || !channels || imageData.length === 0) throw new Error("Not a valid PNG image");
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const rows = unfilter(inflateSync(Buffer.concat(imageData)), height, stride, Math.max(1, bitsPerPixel / 8));
+  const maxSample = 2 ** bitDepth - 1;
+
+  /** Reads a sample scaled to 0-255 (16-bit samples keep their high byte) */
+  const readSample = (row: number, index: number, scale = true) => {
+    if (bitDepth === 16) return rows[row + index * 2];
+    if (bitDepth === 8) return rows[row + index];
+    const bit = index * bitDepth;
+    const value = (rows[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    return scale ? Math.round((value * 255) / maxSample) : value;
+  };
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const samples = Array.from({ length: channels }, (_, channel) =>
+        readSample(y * stride, x * channels + channel, colorType !== 3),
+      );
+      const target = (y * width + x) * 4;
+
+      if (colorType === 3) {
+        const [index] = samples;
+        pixels.set([...palette.subarray(index * 3, index * 3 + 3), transparency[index] ?? 255], target);
+      } else if (colorType === 0 || colorType === 4) {
+        pixels.set([samples[0], samples[0], samples[0], colorType === 4 ? samples[1] : 255], target);
+      } else {
+        pixels.set([samples[0], samples[1], samples[2], colorType === 6 ? samples[3] : 255], target);
+      }
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+/**
+ * Reads a PNG or JPEG file as a downscaled sRGB image.
+ *
+ * @param path - Path of the image file
+ * @returns The decoded image, at most {@link MAX_IMAGE_SIZE} pixels on its longest side
+ * @throws Error if the file cannot be converted or decoded
+ *
+ * @example
+ * ```typescript
+ * const { width, height, pixels } = await loadImage("/Users/me/Desktop/screenshot.png");
+ * ```
+ */
+export async function loadImage(path: string): Promise<DecodedImage> {
+  const folder = await mkdtemp(join(tmpdir(), "color-palettes-"));
+  const output = join(folder, "image.png");
+
+  try {
+    await promisify(execFile)("/usr/bin/sips", [
+      "--setProperty",
+      "format",
+      "png",
+      "--resampleHeightWidthMax",
+      String(MAX_IMAGE_SIZE),
+      "--matchTo",
+      SRGB_PROFILE,
+      path,
+      "--out",
+      output,
+    ]);
+    return decodePng(await readFile(output));
+  } finally {
+    await rm(folder, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Near-duplicate detection for the Color Palette Storage extension.
+ *
+ * Before a palette is saved its colors are compared with every stored palette, so the
+ * user can be warned instead of ending up with the same palette twice.
+ */
+
+import { PaletteColor, StoredPalette } from "../types";
+import { colorDistance } from "./colorDistance";
+import { getNormalizedColors } from "./paletteColors";
+import { parseColor } from "./parseColor";
+
+/** Maximum ΔE00 under which two colors count as the same for near-duplicates (noticeable only side by side) */
+export const DUPLICATE_TOLERANCE = 3;
+
+/**
+ * How a palette duplicates a stored one:
+ * - `exact`: the same colors in the same order
+ * - `reordered`: the same colors in a different order
+ * - `similar`: every color has a nearly identical counterpart in the other palette
+ */
+export type DuplicateKind = "exact" | "reordered" | "similar";
+
+/**
+ * A stored palette that duplicates the palette being saved.
+ */
+export type PaletteDuplicate = {
+  /** The stored palette */
+  palette: StoredPalette;
+  /** How closely it matches */
+  kind: DuplicateKind;
+  /** Largest ΔE00 between a color and its closest counterpart (0 for exact and reordered matches) */
+  distance: number;
+};
+
+/**
+ * Short explanation of every duplicate kind, for warnings.
+ */
+export const DUPLICATE_KIND_DESCRIPTIONS: Record<DuplicateKind, string> = {
+  exact: "has exactly the same colors",
+  reordered: "has the same colors in a different order",
+  similar: "has nearly identical colors",
+};
+
+/**
+ * Computes the largest distance from a color of one list to the closest color of the other
+ * list, in both directions (the Hausdorff distance of the two color sets).
+ */
+const getSetDistance = (first: string[], second: string[]): number => {
+  const parse = (colors: string[]) => colors.map(parseColor).filter((color) => color !== null);
+  const [firstParsed, secondParsed] = [parse(first), parse(second)];
+  if (firstParsed.length === 0 || secondParsed.length === 0) return Infinity;
+
+  const directed = (from: typeof firstParsed, to: typeof firstParsed) =>
+    Math.max(...from.map((color) => Math.min(...to.map((other) => colorDistance(color, other)))));
+  return Math.max(directed(firstParsed, secondParsed), directed(secondParsed, firstParsed));
+};
+
+/**
+ * Finds the stored palette that most closely duplicates a set of colors.
+ *
+ * Exact matches win over reordered ones, which win over similar ones; among similar
+ * palettes the closest one is returned.
+ *
+ * @param colors - Colors of the palette being saved
+ * @param palettes - Stored palettes to compare with
+ * @param excludeId - ID of a palette to ignore (the palette being edited)
+ * @returns The duplicate, or undefined when the colors are new
+ *
+ * @example
+ * ```typescript
+ * findDuplicatePalette([createPaletteColor("#FFC300"), createPaletteColor("#FF5733")], palettes);
+ * // Returns: { palette: sunset, kind: "reordered", distance: 0 }
+ * ```
+ */
+export function findDuplicatePalette(
+  colors: PaletteColor[],
+  palettes: StoredPalette[],
+  excludeId?: string,
+): PaletteDuplicate | undefined {
+  const normalized = colors.map((color) => color.normalized.toUpperCase());
+  const sortedKey = [...normalized].sort().join(",");
+  const rank: Record<DuplicateKind, number> = { exact: 0, reordered: 1, similar: 2 };
+
+  return palettes
+    .filter((palette) => palette.id !== excludeId)
+    .map((palette): PaletteDuplicate | undefined => {
+      const other = getNormalizedColors(palette).map((color) => color.toUpperCase());
+      if (other.join(",") === normalized.join(",")) return { palette, kind: "exact", distance: 0 };
+      if ([...other].sort().join(",") === sortedKey) return { palette, kind: "reordered", distance: 0 };
+
+      const distance = getSetDistance(normalized, other);
+      return distance <= DUPLICATE_TOLERANCE ? { palette, kind: "similar", distance } : undefined;
+    })
+    .filter((duplicate): duplicate is PaletteDuplicate => duplicate !== undefined)
+    .sort((first, second) => rank[first.kind] - rank[second.kind] || first.distance - second.distance)[0];
+}
@@ -0,0 +1,150 @@
+/**
+ * Palette export utilities for the Color Palette Storage extension.
+ *
+ * This module turns stored palettes into code snippets for frontend tooling:
+ * CSS custom properties, SCSS variables, a Tailwind `theme.extend.colors` object
+ * and Design Tokens Community Group (DTCG) JSON. Exported values are the canonical
+ * hex colors, and every variable name is derived from the palette name. Colors with a
+ * semantic role are grouped by role and named after it (e.g. `--ocean-primary`).
+ */
+
+import { PaletteColor, StoredPalette } from "../types";
+import { groupColorsByRole, hasColorRoles } from "./paletteColors";
+
+/**
+ * Supported export formats.
+ */
+export type ExportFormat = "css" | "scss" | "tailwind" | "dtcg";
+
+/**
+ * Display metadata for every export format, in menu order.
+ */
+export const EXPORT_FORMATS: { format: ExportFormat; title: string; extension: string }[] = [
+  { format: "css", title: "CSS Custom Properties", extension: "css" },
+  { format: "scss", title: "SCSS Variables", extension: "scss" },
+  { format: "tailwind", title: "Tailwind Config", extension: "js" },
+  { format: "dtcg", title: "Design Tokens (JSON)", extension: "tokens.json" },
+];
+
+/**
+ * Converts a palette name into a kebab-case identifier usable as a variable prefix.
+ *
+ * Accents are stripped, any run of non-alphanumeric characters becomes a single dash
+ * and names starting with a digit are prefixed so they stay valid SCSS identifiers.
+ *
+ * @param name - The palette name
+ * @returns Kebab-case identifier (falls back to "palette" for empty results)
+ *
+ * @example
+ * ```typescript
+ * toVariableName("Ocean Theme!"); // "ocean-theme"
+ * toVariableName("2026 Brand");   // "palette-2026-brand"
+ * ```
+ */
+export function toVariableName(name: string): string {
+  const slug = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  if (!slug) return "palette";
+  return /^\d/.test(slug) ? `palette-${slug}` : slug;
+}
+
+/**
+ * A group of exported colors sharing a role, with the token key of each color.
+ */
+type TokenGroup = {
+  /** Group title, used for comments (undefined when the palette has no roles) */
+  title?: string;
+  /** Colors of the group with their token key */
+  tokens: { key: string; color: PaletteColor }[];
+};
+
+/**
+ * Orders the colors of a palette by role and assigns each a token key.
+ *
+ * Colors with a role are keyed by the role, numbered when the role is shared
+ * (`primary`, `accent-1`, `accent-2`); colors without a role keep their 1-based
+ * position in the palette as key.
+ */
+const getTokenGroups = (palette: StoredPalette): TokenGroup[] => {
+  const withRoles = hasColorRoles(palette.colors);
+  return groupColorsByRole(palette.colors).map(({ role, title, colors }) => ({
+    title: withRoles ? title : undefined,
+    tokens: colors.map(({ color, index }, position) => ({
+      key: !role ? `${index + 1}` : colors.length > 1 ? `${role}-${position + 1}` : role,
+      color,
+    })),
+  }));
+};
+
+/**
+ * Joins a color name and note into a single token description.
+ */
+const describeColor = (color: PaletteColor): string | undefined =>
+  [color.name, color.note].filter(Boolean).join(" — ") || undefined;
+
+/**
+ * Builds the export content for a palette in the requested format.
+ *
+ * @param palette - The stored palette to export
+ * @param format - The target format
+ * @returns The exported text, ready to copy or write to disk
+ *
+ * @example
+ * ```typescript
+ * exportPalette({ ...palette, name: "Ocean", colors: [primary, unassigned] }, "css");
+ * // :root {
+ * //   /* Primary *\/
+ * //   --ocean-primary: #1E90FF;
+ * //
+ * //   /* Other *\/
+ * //   --ocean-2: #87CEEB;
+ * // }
+ * ```
+ */
+export function exportPalette(palette: StoredPalette, format: ExportFormat): string {
+  const prefix = toVariableName(palette.name);
+  const groups = getTokenGroups(palette);
+  const tokens = groups.flatMap((group) => group.tokens);
+
+  /** Renders one line per color, preceded by a group comment when the palette has roles */
+  const renderLines = (renderToken: (key: string, color: PaletteColor) => string, indent = "") =>
+    groups
+      .map(({ title, tokens: groupTokens }) =>
+        [
+          ...(title ? [`${indent}/* ${title} */`] : []),
+          ...groupTokens.map(({ key, color }) => `${indent}${renderToken(key, color)}`),
+        ].join("\n"),
+      )
+      .join(groups[0]?.title ? "\n\n" : "\n");
+
+  switch (format) {
+    case "css":
+      return `:root {\n${renderLines((key, color) => `--${prefix}-${key}: ${color.normalized};`, "  ")}\n}\n`;
+    case "scss":
+      return `${renderLines((key, color) => `$${prefix}-${key}: ${color.normalized};`)}\n`;
+    case "tailwind": {
+      const shades = Object.fromEntries(tokens.map(({ key, color }) => [key, color.normalized]));
+      const config = { theme: { extend: { colors: { [prefix]: shades } } } };
+      return `/** @type {import('tailwindcss').Config} */\nmodule.exports = ${JSON.stringify(config, null, 2)};\n`;
+    }
+    case "dtcg": {
+      const entries = Object.fromEntries(
+        tokens.map(({ key, color }) => {
+          const description = describeColor(color);
+          return [key, { $value: color.normalized, ...(description && { $description: description }) }];
+        }),
+      );
+      const group = {
+        $type: "color",
+        ...(palette.description && { $description: palette.description }),
+        ...entries,
+      };
+      return `${JSON.stringify({ [prefix]: group }, null, 2)}\n`;
+    }
+  }
+}
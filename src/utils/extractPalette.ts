@@ -0,0 +1,127 @@
+/**
+ * Dominant color extraction for the Color Palette Storage extension.
+ *
+ * Pixels are clustered with k-means in OKLab, where euclidean distances follow perceived
+ * color differences, so the extracted colors are the ones a person would pick. To keep
+ * it fast on any image, pixels are first counted into a coarse RGB histogram and the
+ * clustering runs on the weighted histogram bins.
+ */
+
+import { ColorTriplet } from "../types";
+import { oklabToSrgb, srgbToOklab } from "./colorSpaces";
+import { DecodedImage } from "./decodeImage";
+import { formatHex } from "./parseColor";
+
+/** Number of colors extracted when the user does not choose one */
+export const DEFAULT_EXTRACTED_COLOR_COUNT = 5;
+
+/** Bits kept per RGB channel when counting pixels into the histogram */
+const HISTOGRAM_BITS = 5;
+
+/** Pixels with a lower alpha (0-255) are transparent background and ignored */
+const MIN_ALPHA = 128;
+
+const MAX_ITERATIONS = 20;
+
+/** A histogram bin: the average OKLab color of its pixels and their number */
+type WeightedColor = { lab: ColorTriplet; weight: number };
+
+const squaredDistance = (first: ColorTriplet, second: ColorTriplet) =>
+  (first[0] - second[0]) ** 2 + (first[1] - second[1]) ** 2 + (first[2] - second[2]) ** 2;
+
+/**
+ * Counts the opaque pixels of an image into a coarse RGB histogram.
+ */
+const buildHistogram = ({ pixels }: DecodedImage): WeightedColor[] => {
+  const shift = 8 - HISTOGRAM_BITS;
+  const bins = new Map<number, { sum: ColorTriplet; weight: number }>();
+
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    if (pixels[offset + 3] < MIN_ALPHA) continue;
+    const [r, g, b] = [pixels[offset], pixels[offset + 1], pixels[offset + 2]];
+    const key = ((r >> shift) << (2 * HISTOGRAM_BITS)) | ((g >> shift) << HISTOGRAM_BITS) | (b >> shift);
+    const bin = bins.get(key) ?? { sum: [0, 0, 0], weight: 0 };
+    bin.sum = [bin.sum[0] + r, bin.sum[1] + g, bin.sum[2] + b];
+    bin.weight++;
+    bins.set(key, bin);
+  }
+
+  return [...bins.values()].map(({ sum, weight }) => ({
+    lab: srgbToOklab(sum.map((channel) => channel / weight / 255) as ColorTriplet),
+    weight,
+  }));
+};
+
+/**
+ * Picks initial centroids deterministically: the most common color first, then each time
+ * the color that is both common and far from every centroid chosen so far.
+ */
+const initCentroids = (colors: WeightedColor[], count: number): ColorTriplet[] => {
+  const centroids = [colors.reduce((best, color) => (color.weight > best.weight ? color : best)).lab];
+
+  while (centroids.length < count) {
+    const scores = colors.map(
+      ({ lab, weight }) => weight * Math.min(...centroids.map((centroid) => squaredDistance(lab, centroid))),
+    );
+    const best = scores.indexOf(Math.max(...scores));
+    if (scores[best] === 0) break;
+    centroids.push(colors[best].lab);
+  }
+
+  return centroids;
+};
+
+/**
+ * Extracts the dominant colors of an image.
+ *
+ * @param image - The decoded image
+ * @param count - Number of colors to extract
+ * @returns Hex colors, most dominant first; fewer than `count` when the image has fewer
+ *   distinct colors, and none when it is fully transparent
+ *
+ * @example
+ * ```typescript
+ * extractPalette(await loadImage(path), 5);
+ * // Returns: ["#1B3A4B", "#F4E9D8", "#D9822B", "#6C8EAD", "#2E2E2E"]
+ * ```
+ */
+export function extractPalette(image: DecodedImage, count = DEFAULT_EXTRACTED_COLOR_COUNT): string[] {
+  const colors = buildHistogram(image);
+  if (colors.length === 0) return [];
+
+  let centroids = initCentroids(colors, count);
+  let assignments: number[] = [];
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = colors.map(({ lab }) => {
+      const distances = centroids.map((centroid) => squaredDistance(lab, centroid));
+      return distances.indexOf(Math.min(...distances));
+    });
+    if (next.every((cluster, index) => cluster === assignments[index])) break;
+    assignments = next;
+
+    centroids = centroids.map((centroid, cluster) => {
+      const members = colors.filter((_, index) => assignments[index] === cluster);
+      const weight = members.reduce((total, member) => total + member.weight, 0);
+      if (weight === 0) return centroid;
+      return [0, 1, 2].map(
+        (axis) => members.reduce((total, member) => total + member.lab[axis] * member.weight, 0) / weight,
+      ) as ColorTriplet;
+    });
+  }
+
+  const weights = centroids.map((_, cluster) =>
+    colors.reduce((total, color, index) => total + (assignments[index] === cluster ? color.weight : 0), 0),
+  );
+
+  const hexColors = centroids
+    .map((centroid, cluster) => ({ centroid, weight: weights[cluster] }))
+    .filter(({ weight }) => weight > 0)
+    .sort((first, second) => second.weight - first.weight)
+    .map(({ centroid }) => {
+      const [r, g, b] = oklabToSrgb(centroid).map((channel) => Math.min(1, Math.max(0, channel)));
+      return formatHex({ r, g, b, alpha: 1 });
+    });
+
+  return [...new Set(hexColors)];
+}
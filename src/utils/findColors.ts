@@ -0,0 +1,92 @@
+/**
+ * Color literal scanning utilities for the Color Palette Storage extension.
+ *
+ * Finds the colors written anywhere in free text: chat messages, CSS snippets, design
+ * tool exports or lists pasted into a single color field. Every syntax understood by
+ * {@link parseColor} is recognized:
+ * - hex colors (`#RGB`, `#RGBA`, `#RRGGBB`, `#RRGGBBAA`) not preceded by a letter or digit;
+ *   all-digit ones (`#123`) only as CSS declaration or JSON values, since in chat messages
+ *   they are usually issue or pull request references
+ * - color functions (`rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`, `oklab()`, `oklch()`, `color()`)
+ * - named colors, only as CSS declaration or JSON values (`color: tomato;`), so that ordinary
+ *   words such as "red" or "tan" in a sentence are not mistaken for colors
+ *
+ * Text pasted into a color field is a color value as a whole, so named and all-digit hex
+ * colors are accepted anywhere in it.
+ */
+
+import { getNamedColor } from "./namedColors";
+import { normalizeColor } from "./parseColor";
+
+const COLOR_LITERAL_PATTERN =
+  /\B#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})\b|\b(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)|\b[a-z]+\b/gi;
+
+/** Value of a `property: value` declaration (or JSON `"key": "value"` pair), up to its end or the line end */
+const DECLARATION_VALUE_PATTERN = /[\w-]+["']?\s*:([^;{}\n]*)/g;
+
+/**
+ * Returns the [start, end) ranges of every declaration value in the text.
+ */
+const findDeclarationValues = (text: string): [number, number][] =>
+  [...text.matchAll(DECLARATION_VALUE_PATTERN)].map((match) => {
+    const end = (match.index ?? 0) + match[0].length;
+    return [end - match[1].length, end];
+  });
+
+/**
+ * Finds every color literal in a text.
+ *
+ * @param text - Any text
+ * @param isColorValue - Whether the whole text is a color value (such as a color field), so that
+ *   named and all-digit hex colors are accepted anywhere in it
+ * @returns The colors as written, in order of appearance; a color written several times
+ *   (in any syntax) is only returned the first time
+ *
+ * @example
+ * ```typescript
+ * findColorsInText("Primary is #FF5733, accent rgb(0 128 255).\n.link { color: tomato; border-color: #ff5733 }");
+ * // Returns: ["#FF5733", "rgb(0 128 255)", "tomato"]
+ * ```
+ */
+export function findColorsInText(text: string, isColorValue = false): string[] {
+  const declarationValues: [number, number][] = isColorValue ? [[0, text.length]] : findDeclarationValues(text);
+  const seen = new Set<string>();
+  const colors: string[] = [];
+
+  for (const match of text.matchAll(COLOR_LITERAL_PATTERN)) {
+    const literal = match[0];
+    const index = match.index ?? 0;
+    const isWord = /^[a-z]+$/i.test(literal);
+    const isNumericHex = /^#\d+$/.test(literal);
+
+    if (isWord || isNumericHex) {
+      const inDeclaration = declarationValues.some(([start, end]) => index >= start && index < end);
+      if (!inDeclaration || (isWord && !getNamedColor(literal.toLowerCase()))) continue;
+    }
+
+    const normalized = normalizeColor(literal);
+    if (!normalized || seen.has(normalized)) continue;
+    seen.add(normalized);
+    colors.push(literal);
+  }
+
+  return colors;
+}
+
+/**
+ * Splits the text of a color field holding several colors.
+ *
+ * @param text - Value of a color field
+ * @returns The colors in order, or null if the text is a single color or holds fewer than two
+ *
+ * @example
+ * ```typescript
+ * splitPastedColors("#264653, #2A9D8F; hsl(43 74% 66%)"); // ["#264653", "#2A9D8F", "hsl(43 74% 66%)"]
+ * splitPastedColors("rgb(0, 128, 255)");                  // null
+ * ```
+ */
+export function splitPastedColors(text: string | undefined): string[] | null {
+  if (!text || normalizeColor(text)) return null;
+  const colors = findColorsInText(text, true);
+  return colors.length > 1 ? colors : null;
+}
@@ -6,29 +6,169 @@
  * the application (form state vs storage format vs UI state).
  */
 
-import { PaletteFormFields } from "../types";
+import { PaletteColor, PaletteFormFields } from "../types";
+import { createPaletteColor } from "./paletteColors";
 
 /**
- * Extracts non-empty color values from form data based on the number of color fields.
+ * Checks whether a form field name is a color value field ("color1", "color2", etc.),
+ * as opposed to the metadata fields of a color ("color1Name", "color1Role", "color1Note").
  *
- * This function takes the form values and colorCount, then extracts all non-empty
- * color values from the form fields. It filters out any empty strings to ensure
- * only valid colors are included in the final palette.
+ * @param fieldName - Name of a form field
+ * @returns True for color value fields
+ *
+ * @example
+ * ```typescript
+ * isColorField("color2"); // true
+ * isColorField("color2Note"); // false
+ * ```
+ */
+export function isColorField(fieldName: string): boolean {
+  return /^color\d+$/.test(fieldName);
+}
+
+/**
+ * Returns the 1-based color index a form field belongs to, for both color value fields
+ * and their metadata fields.
+ *
+ * @param fieldName - Name of a form field
+ * @returns The color index, or null for fields unrelated to colors
+ *
+ * @example
+ * ```typescript
+ * getColorFieldIndex("color3"); // 3
+ * getColorFieldIndex("color3Note"); // 3
+ * getColorFieldIndex("name"); // null
+ * ```
+ */
+export function getColorFieldIndex(fieldName: string): number | null {
+  const match = fieldName.match(/^color(\d+)(Name|Role|Note)?$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Checks whether any color of the form has a name, role or note.
+ *
+ * @param values - Form values (e.g. restored draft values)
+ * @returns True when at least one color metadata field holds a value
+ */
+export function hasColorDetails(values?: Partial<PaletteFormFields>): boolean {
+  return Object.entries(values ?? {}).some(([key, value]) => /^color\d+(Name|Role|Note)$/.test(key) && Boolean(value));
+}
+
+/**
+ * Extracts the non-empty colors of the form, with their name, role and note.
+ *
+ * This function takes the form values and colorCount, then builds a palette color for
+ * every color field holding a value. Empty color fields are skipped together with
+ * their metadata so that only valid colors are included in the final palette.
  *
  * @param values - The complete form values object containing all form fields
  * @param colorCount - The number of color fields in the form
- * @returns Array of non-empty color value strings
+ * @returns Array of palette colors, in field order
+ *
+ * @example
+ * ```typescript
+ * const formData = { name: "Ocean", color1: "#1E90FF", color1Role: "primary", color2: "", color3: "#87CEEB" };
+ * const result = extractPaletteColors(formData, 3);
+ * // Returns: [
+ * //   { value: "#1E90FF", normalized: "#1E90FF", role: "primary" },
+ * //   { value: "#87CEEB", normalized: "#87CEEB" }
+ * // ] (empty color2 filtered out)
+ * ```
+ */
+export function extractPaletteColors(values: PaletteFormFields, colorCount: number): PaletteColor[] {
+  return Array.from({ length: colorCount }, (_, index) => `color${index + 1}` as const)
+    .filter((colorKey) => values[colorKey])
+    .map((colorKey) =>
+      createPaletteColor(values[colorKey], {
+        name: values[`${colorKey}Name`],
+        role: values[`${colorKey}Role`],
+        note: values[`${colorKey}Note`],
+      }),
+    );
+}
+
+/**
+ * Raw form values of one color field and its metadata fields.
+ */
+export type ColorFieldEntry = {
+  value: string;
+  name: string;
+  role: string;
+  note: string;
+};
+
+/**
+ * Reads the value and metadata of every color field of the form, in field order.
+ *
+ * Empty fields are kept so that the entries mirror the fields on screen.
+ *
+ * @param values - The complete form values object containing all form fields
+ * @param colorCount - The number of color fields in the form
+ * @returns One entry per color field
+ */
+export function readColorFieldEntries(values: PaletteFormFields, colorCount: number): ColorFieldEntry[] {
+  return Array.from({ length: colorCount }, (_, index) => `color${index + 1}` as const).map((colorKey) => ({
+    value: values[colorKey] ?? "",
+    name: values[`${colorKey}Name`] ?? "",
+    role: values[`${colorKey}Role`] ?? "",
+    note: values[`${colorKey}Note`] ?? "",
+  }));
+}
+
+/**
+ * Converts color field entries back into numbered form fields.
+ *
+ * Fields past the last entry, up to `fieldCount`, are returned empty so that stale
+ * values are cleared when colors are removed or shifted.
+ *
+ * @param entries - Color field entries, in field order
+ * @param fieldCount - Number of color fields to write (defaults to the number of entries)
+ * @returns Form fields ("color1", "color1Name", "color1Role", "color1Note", ...)
+ *
+ * @example
+ * ```typescript
+ * createColorFieldValues([{ value: "navy", name: "", role: "text", note: "" }], 2);
+ * // Returns: { color1: "navy", color1Name: "", color1Role: "text", color1Note: "",
+ * //            color2: "", color2Name: "", color2Role: "", color2Note: "" }
+ * ```
+ */
+export function createColorFieldValues(
+  entries: ColorFieldEntry[],
+  fieldCount = entries.length,
+): Record<string, string> {
+  return Object.fromEntries(
+    Array.from({ length: Math.max(fieldCount, entries.length) }, (_, index) => {
+      const entry = entries[index];
+      return [
+        [`color${index + 1}`, entry?.value ?? ""],
+        [`color${index + 1}Name`, entry?.name ?? ""],
+        [`color${index + 1}Role`, entry?.role ?? ""],
+        [`color${index + 1}Note`, entry?.note ?? ""],
+      ];
+    }).flat(),
+  );
+}
+
+/**
+ * Converts palette colors into color form fields, including their metadata fields.
+ *
+ * @param colors - Colors of a stored palette
+ * @returns Form fields ("color1", "color1Name", "color1Role", "color1Note", ...) for every color
  *
  * @example
  * ```typescript
- * const formData = { name: "Ocean", color1: "#1E90FF", color2: "", color3: "#87CEEB" };
- * const result = extractColorValues(formData, 3);
- * // Returns: ["#1E90FF", "#87CEEB"] (empty color2 filtered out)
+ * createColorFormFields([{ value: "navy", normalized: "#000080", role: "text" }]);
+ * // Returns: { color1: "navy", color1Name: "", color1Role: "text", color1Note: "" }
  * ```
  */
-export function extractColorValues(values: PaletteFormFields, colorCount: number): string[] {
-  return Array.from(
-    { length: colorCount },
-    (_, index) => values[`color${index + 1}` as keyof PaletteFormFields],
-  ).filter(Boolean) as string[];
+export function createColorFormFields(colors: PaletteColor[]): Record<string, string> {
+  return createColorFieldValues(
+    colors.map((color) => ({
+      value: color.value,
+      name: color.name ?? "",
+      role: color.role ?? "",
+      note: color.note ?? "",
+    })),
+  );
 }
@@ -9,6 +9,9 @@
 import { FormValidation } from "@raycast/utils";
 import { isValidColor } from "./isValidColor";
 
+/** Validation message shown when a color field cannot be parsed */
+const INVALID_COLOR_MESSAGE = "Please enter a valid CSS color (hex, rgb, hsl, hwb, lab, lch, oklab, oklch or a name)";
+
 /**
  * Creates dynamic validation rules for a palette form based on the number of color fields.
  *
@@ -57,14 +60,14 @@ export function createValidationRules(colorCount: number) {
           return "At least one color is required";
         }
         if (!isValidColor(value)) {
-          return "Please enter a valid color (hex, rgb, or rgba)";
+          return INVALID_COLOR_MESSAGE;
         }
       };
     } else {
       // Additional color fields: optional but must be valid if provided
       rules[colorKey] = (value: string) => {
         if (value && !isValidColor(value)) {
-          return "Please enter a valid color (hex, rgb, or rgba)";
+          return INVALID_COLOR_MESSAGE;
         }
       };
     }
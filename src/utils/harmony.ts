@@ -0,0 +1,74 @@
+/**
+ * Color harmony utilities for the Color Palette Storage extension.
+ *
+ * This module generates classic color schemes from a single base color, entirely
+ * offline. Hues are rotated in OKLCh so the generated colors keep the lightness and
+ * chroma of the base color as perceived by the eye, then mapped back into sRGB.
+ */
+
+import { ColorTriplet } from "../types";
+import { oklchToSrgbInGamut, srgbToOklch } from "./colorSpaces";
+import { formatHex, parseColor } from "./parseColor";
+
+/**
+ * Supported harmony schemes.
+ */
+export type HarmonyScheme =
+  "complementary" | "analogous" | "triadic" | "tetradic" | "split-complementary" | "monochromatic";
+
+/**
+ * Display metadata for every harmony scheme, in menu order.
+ */
+export const HARMONY_SCHEMES: { scheme: HarmonyScheme; title: string }[] = [
+  { scheme: "complementary", title: "Complementary" },
+  { scheme: "analogous", title: "Analogous" },
+  { scheme: "triadic", title: "Triadic" },
+  { scheme: "tetradic", title: "Tetradic" },
+  { scheme: "split-complementary", title: "Split-Complementary" },
+  { scheme: "monochromatic", title: "Monochromatic" },
+];
+
+/** Hue rotations (degrees) applied to the base color for each hue-based scheme */
+const HUE_OFFSETS: Record<Exclude<HarmonyScheme, "monochromatic">, number[]> = {
+  complementary: [180],
+  analogous: [-30, 30],
+  triadic: [120, 240],
+  tetradic: [60, 180, 240],
+  "split-complementary": [150, 210],
+};
+
+/** Lightness shifts (OKLCh L) applied to the base color for monochromatic schemes */
+const MONOCHROMATIC_OFFSETS = [0.3, 0.15, -0.15, -0.3];
+
+/**
+ * Generates the colors that complete a harmony scheme for a base color.
+ *
+ * @param baseColor - Base color in any supported syntax
+ * @param scheme - The harmony scheme to generate
+ * @returns The generated hex colors (excluding the base color), or null if the base color is invalid
+ *
+ * @example
+ * ```typescript
+ * generateHarmony("#FF5733", "triadic");
+ * // Returns: ["#00B664", "#798DFF"]
+ * ```
+ */
+export function generateHarmony(baseColor: string, scheme: HarmonyScheme): string[] | null {
+  const base = parseColor(baseColor);
+  if (!base) return null;
+
+  const [l, c, h] = srgbToOklch([base.r, base.g, base.b]);
+  const variants: ColorTriplet[] =
+    scheme === "monochromatic"
+      ? MONOCHROMATIC_OFFSETS.map((offset) => [Math.min(0.98, Math.max(0.05, l + offset)), c, h])
+      : HUE_OFFSETS[scheme].map((offset) => [l, c, (h + offset + 360) % 360]);
+
+  const baseHex = formatHex(base);
+  const colors = variants.map((oklch) => {
+    const [r, g, b] = oklchToSrgbInGamut(oklch);
+    return formatHex({ r, g, b, alpha: base.alpha });
+  });
+
+  // Clamped lightness can produce repeats (or the base itself) for very light or dark colors
+  return [...new Set(colors)].filter((color) => color !== baseHex);
+}
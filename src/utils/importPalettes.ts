@@ -0,0 +1,296 @@
+/**
+ * Palette import utilities for the Color Palette Storage extension.
+ *
+ * This module reads swatch files produced by other tools and converts them into
+ * {@link ImportedPalette} objects ready to be previewed and stored:
+ * - Adobe Swatch Exchange (`.ase`, binary)
+ * - GIMP palettes (`.gpl`, text)
+ * - JSON: palettes exported by this extension, arrays of palette-like objects,
+ *   plain arrays of colors and Design Tokens Community Group color groups
+ *
+ * Each swatch group becomes one palette named after the group; swatches outside any
+ * group form a palette named after the file. The file name is kept as a keyword.
+ */
+
+import { basename, extname } from "path";
+import { ImportedPalette, PaletteColor, RgbaColor } from "../types";
+import { labToXyz, srgbToOklab, xyzToSrgb } from "./colorSpaces";
+import { createPaletteColor } from "./paletteColors";
+import { formatHex, normalizeColor } from "./parseColor";
+
+/** File extensions accepted by the importer */
+export const IMPORT_FILE_EXTENSIONS = [".ase", ".gpl", ".json"];
+
+/** Maximum palette name and description lengths accepted by the save form */
+const MAX_NAME_LENGTH = 15;
+const MAX_DESCRIPTION_LENGTH = 50;
+
+/** A named list of colors found in a file, before it is turned into a palette */
+type SwatchGroup = { name: string; colors: string[] };
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR_ENTRY = 0x0001;
+
+/**
+ * Guesses the palette mode from the average perceptual lightness of its colors.
+ *
+ * @param colors - Uppercase hex colors
+ * @returns "dark" when the colors are dark on average, "light" otherwise
+ */
+export const inferMode = (colors: string[]): "light" | "dark" => {
+  const lightness = colors.map((hex) => {
+    const color = parseHexColor(hex);
+    return srgbToOklab([color.r, color.g, color.b])[0];
+  });
+  const average = lightness.reduce((sum, value) => sum + value, 0) / Math.max(1, lightness.length);
+  return average < 0.5 ? "dark" : "light";
+};
+
+const parseHexColor = (hex: string): RgbaColor => {
+  const [r, g, b] = (hex.slice(1, 7).match(/../g) ?? []).map((pair) => parseInt(pair, 16) / 255);
+  return { r, g, b, alpha: 1 };
+};
+
+const toPalette = (group: SwatchGroup, sourceName: string): ImportedPalette => ({
+  name: (group.name.trim() || sourceName).slice(0, MAX_NAME_LENGTH),
+  description: `Imported from ${sourceName}`.slice(0, MAX_DESCRIPTION_LENGTH),
+  mode: inferMode(group.colors),
+  keywords: [sourceName],
+  colors: group.colors.map((color) => ({ value: color, normalized: color })),
+});
+
+// === Adobe Swatch Exchange ===
+
+/**
+ * Reads a length-prefixed, null-terminated UTF-16BE string. Returns the string and the next offset.
+ */
+const readAseString = (buffer: Buffer, offset: number): [string, number] => {
+  const length = buffer.readUInt16BE(offset);
+  let text = "";
+  for (let index = 0; index < length; index++) {
+    const code = buffer.readUInt16BE(offset + 2 + index * 2);
+    if (code !== 0) text += String.fromCharCode(code);
+  }
+  return [text, offset + 2 + length * 2];
+};
+
+const readAseColor = (buffer: Buffer, offset: number): string | null => {
+  const model = buffer
+    .toString("ascii", offset, offset + 4)
+    .trim()
+    .toUpperCase();
+  const value = (index: number) => buffer.readFloatBE(offset + 4 + index * 4);
+
+  switch (model) {
+    case "RGB":
+      return formatHex({ r: value(0), g: value(1), b: value(2), alpha: 1 });
+    case "CMYK": {
+      const black = 1 - value(3);
+      return formatHex({ r: (1 - value(0)) * black, g: (1 - value(1)) * black, b: (1 - value(2)) * black, alpha: 1 });
+    }
+    case "LAB": {
+      const [r, g, b] = xyzToSrgb(labToXyz([value(0) * 100, value(1), value(2)]));
+      return formatHex({ r, g, b, alpha: 1 });
+    }
+    case "GRAY":
+      return formatHex({ r: value(0), g: value(0), b: value(0), alpha: 1 });
+    default:
+      return null;
+  }
+};
+
+const parseAse = (buffer: Buffer, sourceName: string): SwatchGroup[] => {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== "ASEF") {
+    throw new Error("Not a valid Adobe Swatch Exchange file");
+  }
+
+  const blockCount = buffer.readUInt32BE(8);
+  const ungrouped: SwatchGroup = { name: sourceName, colors: [] };
+  const groups: SwatchGroup[] = [ungrouped];
+  let currentGroup = ungrouped;
+  let offset = 12;
+
+  for (let block = 0; block < blockCount && offset + 6 <= buffer.length; block++) {
+    const type = buffer.readUInt16BE(offset);
+    const length = buffer.readUInt32BE(offset + 2);
+    const body = offset + 6;
+
+    if (type === ASE_GROUP_START) {
+      const [name] = readAseString(buffer, body);
+      currentGroup = { name, colors: [] };
+      groups.push(currentGroup);
+    } else if (type === ASE_GROUP_END) {
+      currentGroup = ungrouped;
+    } else if (type === ASE_COLOR_ENTRY) {
+      const [, colorOffset] = readAseString(buffer, body);
+      const color = readAseColor(buffer, colorOffset);
+      if (color) currentGroup.colors.push(color);
+    }
+
+    offset = body + length;
+  }
+
+  return groups;
+};
+
+// === GIMP palette ===
+
+const parseGpl = (text: string, sourceName: string): SwatchGroup[] => {
+  const lines = text.split(/\r?\n/);
+  if (lines[0]?.trim() !== "GIMP Palette") {
+    throw new Error("Not a valid GIMP palette file");
+  }
+
+  const group: SwatchGroup = { name: sourceName, colors: [] };
+  lines.slice(1).forEach((line) => {
+    const trimmed = line.trim();
+    const header = trimmed.match(/^Name:\s*(.+)$/i);
+    if (header) {
+      group.name = header[1];
+      return;
+    }
+
+    const match = trimmed.match(/^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})/);
+    if (match) {
+      const [r, g, b] = match.slice(1, 4).map((value) => Math.min(255, parseInt(value, 10)) / 255);
+      group.colors.push(formatHex({ r, g, b, alpha: 1 }));
+    }
+  });
+
+  return [group];
+};
+
+// === JSON ===
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+const normalizeColorList = (values: JsonValue[]): string[] =>
+  values
+    .map((value) => (typeof value === "string" ? normalizeColor(value) : null))
+    .filter((color): color is string => color !== null);
+
+const asString = (value: JsonValue | undefined): string | undefined => (typeof value === "string" ? value : undefined);
+
+/**
+ * Reads a color of a palette-like object: either a color string or a stored color object
+ * (`{ value, normalized, name, role, note }`), whose metadata is kept.
+ */
+const parseJsonColor = (value: JsonValue): PaletteColor | null => {
+  if (typeof value === "string") {
+    const normalized = normalizeColor(value);
+    return normalized ? { value: normalized, normalized } : null;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const color = [value.value, value.normalized].find(
+    (candidate): candidate is string => typeof candidate === "string" && normalizeColor(candidate) !== null,
+  );
+  if (!color) return null;
+  return createPaletteColor(color, {
+    name: asString(value.name),
+    role: asString(value.role),
+    note: asString(value.note),
+  });
+};
+
+/**
+ * Collects DTCG color tokens (objects with `$value`) from a token group, depth first.
+ */
+const collectTokenColors = (group: { [key: string]: JsonValue }): string[] =>
+  Object.entries(group).flatMap(([key, value]) => {
+    if (key.startsWith("$") || !value || typeof value !== "object" || Array.isArray(value)) return [];
+    if (typeof value.$value === "string") return normalizeColorList([value.$value]);
+    return collectTokenColors(value);
+  });
+
+const parseJsonEntry = (entry: JsonValue, fallbackName: string): ImportedPalette[] => {
+  if (!entry || typeof entry !== "object" || Array.isArray(entry)) return [];
+
+  // Palette-like object, e.g. a StoredPalette exported by this extension
+  if (Array.isArray(entry.colors)) {
+    const colors = entry.colors.map(parseJsonColor).filter((color): color is PaletteColor => color !== null);
+    if (colors.length === 0) return [];
+    const name = typeof entry.name === "string" && entry.name.trim() ? entry.name : fallbackName;
+    const palette = toPalette({ name, colors: colors.map((color) => color.normalized) }, fallbackName);
+    const keywords = Array.isArray(entry.keywords)
+      ? entry.keywords.filter((keyword): keyword is string => typeof keyword === "string")
+      : [];
+
+    return [
+      {
+        ...palette,
+        description:
+          typeof entry.description === "string"
+            ? entry.description.slice(0, MAX_DESCRIPTION_LENGTH)
+            : palette.description,
+        mode: entry.mode === "light" || entry.mode === "dark" ? entry.mode : palette.mode,
+        keywords: keywords.length > 0 ? keywords : palette.keywords,
+        colors,
+      },
+    ];
+  }
+
+  // Design tokens: every top-level group becomes a palette
+  return Object.entries(entry).flatMap(([name, group]) => {
+    if (name.startsWith("$") || !group || typeof group !== "object" || Array.isArray(group)) return [];
+    const colors = collectTokenColors(group);
+    return colors.length > 0 ? [toPalette({ name, colors }, fallbackName)] : [];
+  });
+};
+
+const parseJson = (text: string, sourceName: string): ImportedPalette[] => {
+  let data: JsonValue;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid JSON file");
+  }
+
+  if (Array.isArray(data)) {
+    // A plain list of colors is a single palette
+    if (data.every((value) => typeof value === "string")) {
+      const colors = normalizeColorList(data);
+      return colors.length > 0 ? [toPalette({ name: sourceName, colors }, sourceName)] : [];
+    }
+    return data.flatMap((entry) => parseJsonEntry(entry, sourceName));
+  }
+
+  return parseJsonEntry(data, sourceName);
+};
+
+/**
+ * Parses a swatch file into palettes, choosing the format from the file extension.
+ *
+ * Empty swatch groups are dropped. Colors are converted to canonical hex values.
+ *
+ * @param filePath - Path of the file, used for format detection and naming
+ * @param content - Raw file content
+ * @returns Palettes found in the file
+ * @throws Error if the extension is unsupported or the file is malformed
+ *
+ * @example
+ * ```typescript
+ * const palettes = parsePaletteFile("/Users/me/brand.gpl", await readFile("/Users/me/brand.gpl"));
+ * // Returns: [{ name: "Brand", keywords: ["brand"], colors: ["#0F172A", ...], ... }]
+ * ```
+ */
+export function parsePaletteFile(filePath: string, content: Buffer): ImportedPalette[] {
+  const extension = extname(filePath).toLowerCase();
+  const sourceName = basename(filePath, extname(filePath));
+
+  switch (extension) {
+    case ".ase":
+      return parseAse(content, sourceName)
+        .filter((group) => group.colors.length > 0)
+        .map((group) => toPalette(group, sourceName));
+    case ".gpl":
+      return parseGpl(content.toString("utf8"), sourceName)
+        .filter((group) => group.colors.length > 0)
+        .map((group) => toPalette(group, sourceName));
+    case ".json":
+      return parseJson(content.toString("utf8"), sourceName);
+    default:
+      throw new Error(`Unsupported file type "${extension}"`);
+  }
+}
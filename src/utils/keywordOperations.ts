@@ -0,0 +1,140 @@
+/**
+ * Keyword management utilities for the Color Palette Storage extension.
+ *
+ * Keywords live in two places: the global keyword list offered by the save form, and the
+ * keywords of every palette. Renaming, merging and deleting a keyword update both, and so
+ * does auto-tagging, which adds the keywords suggested from each palette's colors.
+ *
+ * Every operation reads the current palettes and keywords from storage, computes the
+ * complete result in memory, and only then writes it: the whole palette list is written
+ * with a single storage call, so palettes are never left half-updated.
+ */
+
+import { StoredPalette } from "../types";
+import { suggestKeywords } from "./keywordSuggestions";
+import { getNormalizedColors } from "./paletteColors";
+import { loadKeywords, loadPaletteLibrary, saveKeywords, savePalettes } from "./paletteStorage";
+
+/**
+ * Palettes and global keyword list after a keyword operation.
+ */
+export type KeywordState = {
+  palettes: StoredPalette[];
+  keywords: string[];
+};
+
+/**
+ * A keyword with the number of palettes using it.
+ */
+export type KeywordUsage = {
+  keyword: string;
+  /** Number of palettes carrying the keyword (0 for orphans) */
+  count: number;
+};
+
+/**
+ * Lists every keyword, from the global list or from any palette, with its usage count.
+ *
+ * @param palettes - Every stored palette
+ * @param keywords - The global keyword list
+ * @returns Keywords sorted by usage (most used first), then alphabetically
+ */
+export function getKeywordUsage(palettes: StoredPalette[], keywords: string[]): KeywordUsage[] {
+  const counts = new Map<string, number>(keywords.map((keyword) => [keyword, 0]));
+  palettes.forEach((palette) =>
+    new Set(palette.keywords).forEach((keyword) => counts.set(keyword, (counts.get(keyword) ?? 0) + 1)),
+  );
+
+  return [...counts]
+    .map(([keyword, count]) => ({ keyword, count }))
+    .sort((first, second) => second.count - first.count || first.keyword.localeCompare(second.keyword));
+}
+
+/**
+ * Replaces keywords in a list, keeping the position of the first occurrence and dropping duplicates.
+ * Keywords mapped to undefined are removed.
+ */
+const replaceKeywords = (keywords: string[], replace: (keyword: string) => string | undefined): string[] => [
+  ...new Set(keywords.map(replace).filter((keyword): keyword is string => keyword !== undefined)),
+];
+
+/**
+ * Applies a keyword replacement to every palette and to the global list, then persists both.
+ */
+const applyReplacement = async (replace: (keyword: string) => string | undefined): Promise<KeywordState> => {
+  const [{ palettes }, keywords] = await Promise.all([loadPaletteLibrary(), loadKeywords()]);
+  const state: KeywordState = {
+    palettes: palettes.map((palette) =>
+      palette.keywords.some((keyword) => replace(keyword) !== keyword)
+        ? { ...palette, keywords: replaceKeywords(palette.keywords, replace) }
+        : palette,
+    ),
+    keywords: replaceKeywords(keywords, replace),
+  };
+
+  await savePalettes(state.palettes);
+  await saveKeywords(state.keywords);
+  return state;
+};
+
+/**
+ * Renames a keyword everywhere. Renaming to an existing keyword merges both.
+ *
+ * @param keyword - The keyword to rename
+ * @param newName - Its new name
+ * @returns The updated palettes and keywords
+ */
+export async function renameKeyword(keyword: string, newName: string): Promise<KeywordState> {
+  const target = newName.trim();
+  return applyReplacement((current) => (current === keyword ? target : current));
+}
+
+/**
+ * Merges keywords into another one: palettes carrying any of them get the target instead.
+ *
+ * @param keywords - The keywords to merge (they disappear)
+ * @param target - The keyword they are merged into
+ * @returns The updated palettes and keywords
+ */
+export async function mergeKeywords(keywords: string[], target: string): Promise<KeywordState> {
+  return applyReplacement((current) => (keywords.includes(current) ? target : current));
+}
+
+/**
+ * Deletes keywords from every palette and from the global list.
+ *
+ * @param keywords - The keywords to delete
+ * @returns The updated palettes and keywords
+ */
+export async function deleteKeywords(keywords: string[]): Promise<KeywordState> {
+  return applyReplacement((current) => (keywords.includes(current) ? undefined : current));
+}
+
+/**
+ * Adds the keywords suggested from its colors to every palette, and the new keywords to the global list.
+ * Existing keywords are kept; palettes that already carry every suggestion are left untouched.
+ *
+ * @returns The updated palettes and keywords, and the number of palettes that received new keywords
+ */
+export async function autoTagPalettes(): Promise<KeywordState & { taggedCount: number }> {
+  const [{ palettes }, keywords] = await Promise.all([loadPaletteLibrary(), loadKeywords()]);
+  const addedKeywords = new Set<string>();
+  let taggedCount = 0;
+
+  const state: KeywordState = {
+    palettes: palettes.map((palette) => {
+      const added = suggestKeywords(getNormalizedColors(palette)).filter(
+        (keyword) => !palette.keywords.includes(keyword),
+      );
+      if (added.length === 0) return palette;
+      added.forEach((keyword) => addedKeywords.add(keyword));
+      taggedCount++;
+      return { ...palette, keywords: [...palette.keywords, ...added] };
+    }),
+    keywords: [...new Set([...keywords, ...addedKeywords])],
+  };
+
+  await savePalettes(state.palettes);
+  await saveKeywords(state.keywords);
+  return { ...state, taggedCount };
+}
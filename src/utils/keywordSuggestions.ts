@@ -0,0 +1,128 @@
+/**
+ * Keyword suggestion utilities for the Color Palette Storage extension.
+ *
+ * Descriptive tags are derived locally from the colors of a palette, using OKLCH
+ * (perceptual lightness, chroma and hue) so that thresholds behave the same across hues:
+ * - temperature: `warm` or `cool`
+ * - saturation: `neon`, `vibrant`, `pastel` or `muted`
+ * - `monochrome`, `earthy` and `high-contrast`
+ * - dominant hue families such as `blue` or `orange`
+ */
+
+import { contrastRatio } from "./contrast";
+import { srgbToOklch } from "./colorSpaces";
+import { parseColor } from "./parseColor";
+
+/** Colors under this OKLCH chroma count as grays and have no meaningful hue */
+const ACHROMATIC_CHROMA = 0.03;
+
+/**
+ * Hue families by OKLCH hue angle (upper bound exclusive), in hue order.
+ * Angles above the last bound wrap around to the first family.
+ */
+const HUE_FAMILIES: { family: string; maxHue: number }[] = [
+  { family: "red", maxHue: 45 },
+  { family: "orange", maxHue: 75 },
+  { family: "yellow", maxHue: 115 },
+  { family: "green", maxHue: 170 },
+  { family: "teal", maxHue: 215 },
+  { family: "blue", maxHue: 280 },
+  { family: "purple", maxHue: 320 },
+  { family: "pink", maxHue: 350 },
+];
+
+/**
+ * Returns the hue family of an OKLCH hue angle.
+ */
+const getHueFamily = (hue: number) => HUE_FAMILIES.find(({ maxHue }) => hue < maxHue)?.family ?? "red";
+
+/**
+ * Returns the smallest arc (in degrees) containing every hue.
+ */
+const getHueSpread = (hues: number[]) => {
+  const sorted = [...hues].sort((first, second) => first - second);
+  const largestGap = Math.max(
+    ...sorted.map((hue, index) =>
+      index === 0 ? sorted[0] + 360 - sorted[sorted.length - 1] : hue - sorted[index - 1],
+    ),
+  );
+  return 360 - largestGap;
+};
+
+/**
+ * Checks whether at least a share of the items satisfies a predicate.
+ */
+const share = <T>(items: T[], predicate: (item: T) => boolean, minimum: number) =>
+  items.length > 0 && items.filter(predicate).length / items.length >= minimum;
+
+/**
+ * Suggests descriptive keywords for a set of colors.
+ *
+ * @param colors - Colors in any supported syntax (unparseable ones are ignored)
+ * @returns Suggested keywords, most general first; empty when no color can be parsed
+ *
+ * @example
+ * ```typescript
+ * suggestKeywords(["#FFB3BA", "#FFDFBA", "#FFFFBA"]);
+ * // Returns: ["warm", "pastel", "red", "orange"]
+ * ```
+ */
+export function suggestKeywords(colors: string[]): string[] {
+  const parsed = colors.map(parseColor).filter((color) => color !== null);
+  if (parsed.length === 0) return [];
+
+  const oklch = parsed.map((color) => {
+    const [lightness, chroma, hue] = srgbToOklch([color.r, color.g, color.b]);
+    return { lightness, chroma, hue };
+  });
+  const chromatic = oklch.filter(({ chroma }) => chroma >= ACHROMATIC_CHROMA);
+  const keywords: string[] = [];
+
+  // Temperature: reds, oranges, yellows and pinks are warm; greens to blues are cool
+  if (share(chromatic, ({ hue }) => hue < 110 || hue >= 330, 2 / 3)) keywords.push("warm");
+  else if (share(chromatic, ({ hue }) => hue >= 160 && hue < 300, 2 / 3)) keywords.push("cool");
+
+  // Saturation, from the most to the least intense
+  if (share(chromatic, ({ chroma, lightness }) => chroma >= 0.24 && lightness >= 0.6, 1 / 2)) {
+    keywords.push("neon");
+  } else if (share(chromatic, ({ chroma }) => chroma >= 0.15, 1 / 2)) {
+    keywords.push("vibrant");
+  } else if (share(chromatic, ({ chroma, lightness }) => chroma < 0.12 && lightness >= 0.8, 2 / 3)) {
+    keywords.push("pastel");
+  } else if (share(chromatic, ({ chroma }) => chroma < 0.08, 2 / 3)) {
+    keywords.push("muted");
+  }
+
+  // A single hue (or only grays)
+  if (parsed.length > 1 && (chromatic.length === 0 || getHueSpread(chromatic.map(({ hue }) => hue)) <= 30)) {
+    keywords.push("monochrome");
+  }
+
+  // Browns, ochres, olives and terracottas: low-chroma, mid-lightness warm hues
+  if (
+    share(
+      chromatic,
+      ({ hue, chroma, lightness }) => hue >= 30 && hue < 130 && chroma < 0.14 && lightness >= 0.25 && lightness < 0.75,
+      1 / 2,
+    )
+  ) {
+    keywords.push("earthy");
+  }
+
+  // The lightest and darkest colors reach WCAG AAA contrast
+  const ratios = parsed.flatMap((first, index) =>
+    parsed.slice(index + 1).map((second) => contrastRatio(first, second)),
+  );
+  if (ratios.length > 0 && Math.max(...ratios) >= 7) keywords.push("high-contrast");
+
+  // Hue families covering at least a third of the colored colors (at most two)
+  const families = new Map<string, number>();
+  chromatic.forEach(({ hue }) => families.set(getHueFamily(hue), (families.get(getHueFamily(hue)) ?? 0) + 1));
+  [...families]
+    .filter(([, count]) => count / chromatic.length >= 1 / 3)
+    .sort((first, second) => second[1] - first[1])
+    .slice(0, 2)
+    .forEach(([family]) => keywords.push(family));
+
+  return keywords;
+}
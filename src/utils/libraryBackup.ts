@@ -0,0 +1,268 @@
+/**
+ * Library backup utilities for the Color Palette Storage extension.
+ *
+ * A backup is a single JSON file holding every palette, the global keyword list and
+ * the collections, tagged with a backup format version, the storage schema version
+ * and a SHA-256 checksum of its content. Restoring migrates and validates the palettes
+ * like loading them from local storage, then merges them into the current library
+ * according to a restore mode.
+ */
+
+import { createHash } from "crypto";
+import { PaletteCollection, StoredPalette } from "../types";
+import { getNormalizedColors } from "./paletteColors";
+import {
+  CURRENT_SCHEMA_VERSION,
+  isValidCollection,
+  migratePaletteRecords,
+  QuarantinedRecord,
+  validatePaletteRecords,
+} from "./paletteStorage";
+
+/** Marker identifying backup files written by this extension */
+const BACKUP_FORMAT = "my-color-palettes-backup";
+
+/** Version of the backup file layout (independent from the storage schema version) */
+const BACKUP_VERSION = 1;
+
+/**
+ * Content of a backup file.
+ */
+export type LibraryBackup = {
+  /** Always {@link BACKUP_FORMAT} */
+  format: string;
+  /** Version of the backup file layout */
+  version: number;
+  /** Storage schema version of the palettes in `data` */
+  schemaVersion: number;
+  /** ISO timestamp of when the backup was made */
+  createdAt: string;
+  /** SHA-256 hex digest of `data` serialized as JSON */
+  checksum: string;
+  /** The backed up library */
+  data: {
+    palettes: StoredPalette[];
+    keywords: string[];
+    /** Missing in backups made before collections existed */
+    collections?: PaletteCollection[];
+  };
+};
+
+/**
+ * A backup read back from disk, with its palettes validated against the current schema.
+ */
+export type ParsedBackup = {
+  /** ISO timestamp of when the backup was made */
+  createdAt: string;
+  /** Valid palettes of the backup */
+  palettes: StoredPalette[];
+  /** Global keywords of the backup */
+  keywords: string[];
+  /** Valid collections of the backup */
+  collections: PaletteCollection[];
+  /** Palette records of the backup that failed validation (they are not restored) */
+  invalid: QuarantinedRecord[];
+};
+
+/**
+ * How a backup is combined with the current library.
+ */
+export type RestoreMode = "replace" | "merge-skip-existing" | "merge-overwrite";
+
+/**
+ * Display metadata for every restore mode, in menu order.
+ */
+export const RESTORE_MODES: { mode: RestoreMode; title: string; description: string }[] = [
+  {
+    mode: "merge-skip-existing",
+    title: "Merge, Keep Existing",
+    description: "Adds palettes from the backup; palettes that already exist (same id) are left untouched.",
+  },
+  {
+    mode: "merge-overwrite",
+    title: "Merge, Overwrite Existing",
+    description: "Adds palettes from the backup; palettes that already exist (same id) are replaced by the backup.",
+  },
+  {
+    mode: "replace",
+    title: "Replace Library",
+    description: "Deletes every current palette and keyword, then restores the backup as is.",
+  },
+];
+
+/**
+ * Outcome of restoring a backup, computed before anything is written.
+ */
+export type RestorePlan = {
+  /** Palette list after the restore */
+  palettes: StoredPalette[];
+  /** Keyword list after the restore */
+  keywords: string[];
+  /** Collection list after the restore */
+  collections: PaletteCollection[];
+  /** Backup palettes added to the library */
+  added: StoredPalette[];
+  /** Current palettes replaced by their backup version */
+  overwritten: StoredPalette[];
+  /** Backup palettes left out because a palette with the same id exists */
+  skipped: StoredPalette[];
+  /** Current palettes deleted by a replace */
+  removed: StoredPalette[];
+  /** Backup palettes left out because a palette with the same content but another id exists */
+  duplicates: { palette: StoredPalette; existing: StoredPalette }[];
+};
+
+/**
+ * Computes the checksum of the backed up library.
+ */
+const computeChecksum = (data: LibraryBackup["data"]) =>
+  createHash("sha256").update(JSON.stringify(data)).digest("hex");
+
+/**
+ * Identifies a palette by what it looks like: its mode and its canonical colors in order.
+ */
+const getContentKey = (palette: StoredPalette) => `${palette.mode}|${getNormalizedColors(palette).join(",")}`;
+
+/**
+ * Creates the content of a backup file.
+ *
+ * @param palettes - Every stored palette
+ * @param keywords - The global keyword list
+ * @param collections - Every collection
+ * @returns Pretty-printed JSON, ready to be written to disk
+ */
+export function createBackup(palettes: StoredPalette[], keywords: string[], collections: PaletteCollection[]): string {
+  const data = { palettes, keywords, collections };
+  const backup: LibraryBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: computeChecksum(data),
+    data,
+  };
+  return `${JSON.stringify(backup, null, 2)}\n`;
+}
+
+/**
+ * Reads a backup file, verifying its checksum and upgrading its palettes to the current schema.
+ *
+ * @param content - Text content of the backup file
+ * @returns The validated backup
+ * @throws When the file is not a backup, is damaged (checksum mismatch) or comes from a newer version
+ */
+export function parseBackup(content: string): ParsedBackup {
+  let backup: LibraryBackup;
+  try {
+    backup = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (backup?.format !== BACKUP_FORMAT || typeof backup.data !== "object" || backup.data === null) {
+    throw new Error("The file is not a color palettes backup");
+  }
+  if (backup.version > BACKUP_VERSION || backup.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error("The backup was made by a newer version of the extension");
+  }
+  if (backup.checksum !== computeChecksum(backup.data)) {
+    throw new Error("The backup is damaged (checksum mismatch)");
+  }
+
+  const records: unknown[] = Array.isArray(backup.data.palettes) ? backup.data.palettes : [];
+  const { palettes, invalid } = validatePaletteRecords(migratePaletteRecords(records, backup.schemaVersion ?? 1));
+  const keywords = Array.isArray(backup.data.keywords)
+    ? backup.data.keywords.filter((keyword): keyword is string => typeof keyword === "string" && keyword !== "")
+    : [];
+  const collections = Array.isArray(backup.data.collections) ? backup.data.collections.filter(isValidCollection) : [];
+
+  return { createdAt: backup.createdAt, palettes, keywords, collections, invalid };
+}
+
+/**
+ * Computes how a backup would change the library, without writing anything.
+ *
+ * Palettes are matched on id. In merge modes, backup palettes that look exactly like a
+ * current palette stored under another id (same mode and colors) are left out as duplicates.
+ * Collections are matched on id like palettes. Links to light/dark variants and
+ * collections that do not exist after the restore are dropped.
+ *
+ * @param current - Current palettes, keywords and collections
+ * @param backup - The parsed backup
+ * @param mode - The restore mode
+ * @returns The restore plan
+ */
+export function planRestore(
+  current: { palettes: StoredPalette[]; keywords: string[]; collections: PaletteCollection[] },
+  backup: ParsedBackup,
+  mode: RestoreMode,
+): RestorePlan {
+  const plan: RestorePlan = {
+    palettes: [],
+    keywords: [],
+    collections: [],
+    added: [],
+    overwritten: [],
+    skipped: [],
+    removed: [],
+    duplicates: [],
+  };
+
+  if (mode === "replace") {
+    plan.palettes = backup.palettes;
+    plan.added = backup.palettes;
+    plan.removed = current.palettes;
+  } else {
+    const currentById = new Map(current.palettes.map((palette) => [palette.id, palette]));
+    const currentByContent = new Map(current.palettes.map((palette) => [getContentKey(palette), palette]));
+    const overwrites = new Map<string, StoredPalette>();
+
+    backup.palettes.forEach((palette) => {
+      if (currentById.has(palette.id)) {
+        if (mode === "merge-overwrite") {
+          overwrites.set(palette.id, palette);
+          plan.overwritten.push(palette);
+        } else {
+          plan.skipped.push(palette);
+        }
+        return;
+      }
+
+      const existing = currentByContent.get(getContentKey(palette));
+      if (existing) {
+        plan.duplicates.push({ palette, existing });
+        return;
+      }
+      plan.added.push(palette);
+    });
+
+    // New palettes first (newest first like everywhere else), then the current ones in place
+    plan.palettes = [...plan.added, ...current.palettes.map((palette) => overwrites.get(palette.id) ?? palette)];
+  }
+
+  if (mode === "replace") {
+    plan.collections = backup.collections;
+  } else {
+    const backupById = new Map(backup.collections.map((collection) => [collection.id, collection]));
+    const currentIds = new Set(current.collections.map((collection) => collection.id));
+    plan.collections = [
+      ...current.collections.map((collection) =>
+        mode === "merge-overwrite" ? (backupById.get(collection.id) ?? collection) : collection,
+      ),
+      ...backup.collections.filter((collection) => !currentIds.has(collection.id)),
+    ];
+  }
+
+  const ids = new Set(plan.palettes.map((palette) => palette.id));
+  const collectionIds = new Set(plan.collections.map((collection) => collection.id));
+  plan.palettes = plan.palettes.map(({ linkedPaletteId, collectionId, ...palette }) => ({
+    ...palette,
+    ...(linkedPaletteId && ids.has(linkedPaletteId) && { linkedPaletteId }),
+    ...(collectionId && collectionIds.has(collectionId) && { collectionId }),
+  }));
+
+  const baseKeywords = mode === "replace" ? backup.keywords : [...current.keywords, ...backup.keywords];
+  plan.keywords = [...new Set([...baseKeywords, ...plan.palettes.flatMap((palette) => palette.keywords)])];
+
+  return plan;
+}
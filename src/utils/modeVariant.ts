@@ -0,0 +1,83 @@
+/**
+ * Light/dark variant utilities for the Color Palette Storage extension.
+ *
+ * This module derives the opposite-mode counterpart of a palette. Lightness is mirrored
+ * in OKLCh, so light backgrounds become dark ones, dark text becomes light text and the
+ * lightness gap between any two colors (and therefore their contrast relationship) is
+ * kept. Hue is untouched; chroma is slightly reduced on dark backgrounds, where
+ * saturated colors appear more intense, and restored for light variants.
+ */
+
+import { StoredPalette } from "../types";
+import { oklchToSrgbInGamut, srgbToOklch } from "./colorSpaces";
+import { createPaletteColor } from "./paletteColors";
+import { formatHex, parseColor } from "./parseColor";
+
+/** Sum of the darkest and lightest lightness used when mirroring (L' = MIRROR_AXIS - L) */
+const MIRROR_AXIS = 1.13;
+
+/** Chroma multiplier applied when going from light to dark (inverted for dark to light) */
+const DARK_CHROMA_FACTOR = 0.9;
+
+/** Maximum palette name length accepted by the save form */
+const MAX_NAME_LENGTH = 15;
+
+/**
+ * Remaps a single color for the opposite mode.
+ *
+ * @param color - Color in any supported syntax
+ * @param targetMode - Mode of the variant being created
+ * @returns The remapped hex color, or null if the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * remapColorForMode("#FFFFFF", "dark"); // "#070707"
+ * remapColorForMode("#0F172A", "light"); // "#DAE5FF"
+ * ```
+ */
+export function remapColorForMode(color: string, targetMode: "light" | "dark"): string | null {
+  const parsed = parseColor(color);
+  if (!parsed) return null;
+
+  const [l, c, h] = srgbToOklch([parsed.r, parsed.g, parsed.b]);
+  const chroma = targetMode === "dark" ? c * DARK_CHROMA_FACTOR : c / DARK_CHROMA_FACTOR;
+  const [r, g, b] = oklchToSrgbInGamut([MIRROR_AXIS - l, chroma, h]);
+
+  return formatHex({ r, g, b, alpha: parsed.alpha });
+}
+
+/**
+ * Creates the opposite-mode variant of a palette, linked back to its source.
+ *
+ * The variant keeps the color order (and therefore the role of each color), the
+ * description and the keywords. The caller is responsible for also linking the
+ * source palette to the returned variant.
+ *
+ * @param palette - The source palette
+ * @returns A new palette with the opposite mode
+ *
+ * @example
+ * ```typescript
+ * const darkVariant = createModeVariant(lightPalette);
+ * // darkVariant.mode === "dark", darkVariant.linkedPaletteId === lightPalette.id
+ * ```
+ */
+export function createModeVariant(palette: StoredPalette): StoredPalette {
+  const targetMode = palette.mode === "dark" ? "light" : "dark";
+  const suffix = targetMode === "dark" ? " Dark" : " Light";
+  const colors = palette.colors.map((color) => {
+    const remapped = remapColorForMode(color.value, targetMode) ?? color.normalized;
+    return createPaletteColor(remapped, color); // Keeps the name, role and note of each color, not its usage
+  });
+
+  return {
+    id: Date.now().toString(),
+    name: `${palette.name.slice(0, MAX_NAME_LENGTH - suffix.length).trim()}${suffix}`,
+    description: palette.description,
+    mode: targetMode,
+    keywords: palette.keywords || [],
+    colors,
+    createdAt: new Date().toISOString(),
+    linkedPaletteId: palette.id,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Palette color helpers for the Color Palette Storage extension.
+ *
+ * This module provides read helpers over stored palettes so that views and actions
+ * can work with canonical color values and per-color metadata regardless of when a
+ * palette was saved.
+ */
+
+import { ColorRole, PaletteColor, StoredPalette } from "../types";
+import { getColorName } from "./colorNames";
+import { normalizeColor } from "./parseColor";
+
+/**
+ * Every semantic color role with its display title, in the order used to group colors.
+ */
+export const COLOR_ROLES: { role: ColorRole; title: string }[] = [
+  { role: "primary", title: "Primary" },
+  { role: "secondary", title: "Secondary" },
+  { role: "accent", title: "Accent" },
+  { role: "background", title: "Background" },
+  { role: "surface", title: "Surface" },
+  { role: "text", title: "Text" },
+  { role: "success", title: "Success" },
+  { role: "warning", title: "Warning" },
+  { role: "error", title: "Error" },
+];
+
+/** Title of the group holding colors without a role */
+const UNASSIGNED_ROLE_TITLE = "Other";
+
+/**
+ * A set of palette colors sharing the same role.
+ */
+export type ColorRoleGroup = {
+  /** Shared role, or undefined for colors without a role */
+  role?: ColorRole;
+  /** Display title of the group */
+  title: string;
+  /** Colors of the group with their 0-based position in the palette */
+  colors: { color: PaletteColor; index: number }[];
+};
+
+/**
+ * Checks whether a string is one of the supported color roles.
+ */
+export function isColorRole(value: unknown): value is ColorRole {
+  return COLOR_ROLES.some(({ role }) => role === value);
+}
+
+/**
+ * Returns the display title of a color role.
+ */
+export function getColorRoleTitle(role: ColorRole): string {
+  return COLOR_ROLES.find((entry) => entry.role === role)?.title ?? role;
+}
+
+/**
+ * Creates a palette color from a value as typed, computing its canonical hex value.
+ *
+ * Empty metadata strings are dropped so stored colors only carry the fields that were set.
+ *
+ * @param value - Color value exactly as entered by the user
+ * @param metadata - Optional name, role and note
+ * @returns The palette color
+ *
+ * @example
+ * ```typescript
+ * createPaletteColor("navy", { role: "text" });
+ * // Returns: { value: "navy", normalized: "#000080", role: "text" }
+ * ```
+ */
+export function createPaletteColor(
+  value: string,
+  metadata: { name?: string; role?: string; note?: string } = {},
+): PaletteColor {
+  const name = metadata.name?.trim();
+  const note = metadata.note?.trim();
+  return {
+    value,
+    normalized: normalizeColor(value) ?? value,
+    ...(name && { name }),
+    ...(isColorRole(metadata.role) && { role: metadata.role }),
+    ...(note && { note }),
+  };
+}
+
+/**
+ * Returns the canonical hex value of every color in a palette.
+ *
+ * @param palette - The stored palette
+ * @returns Array of canonical hex colors, aligned with `palette.colors`
+ *
+ * @example
+ * ```typescript
+ * getNormalizedColors(palette);
+ * // Returns: ["#FF0000", "#000080"]
+ * ```
+ */
+export function getNormalizedColors(palette: StoredPalette): string[] {
+  return palette.colors.map((color) => color.normalized);
+}
+
+/**
+ * Returns every color value of a palette exactly as entered by the user.
+ *
+ * @param palette - The stored palette
+ * @returns Array of color values, aligned with `palette.colors`
+ */
+export function getColorValues(palette: StoredPalette): string[] {
+  return palette.colors.map((color) => color.value);
+}
+
+/**
+ * Returns the name to display for a palette color: its custom name when set,
+ * otherwise the closest known color name.
+ */
+export function getPaletteColorName(color: PaletteColor): string {
+  return color.name || getColorName(color.normalized);
+}
+
+/**
+ * Groups the colors of a palette by semantic role.
+ *
+ * Groups follow the order of {@link COLOR_ROLES}; colors without a role come last.
+ * Empty groups are omitted and colors keep their palette order within a group.
+ *
+ * @param colors - Colors of a palette
+ * @returns Non-empty role groups
+ */
+export function groupColorsByRole(colors: PaletteColor[]): ColorRoleGroup[] {
+  const indexed = colors.map((color, index) => ({ color, index }));
+  const groups: ColorRoleGroup[] = COLOR_ROLES.map(({ role, title }) => ({
+    role,
+    title,
+    colors: indexed.filter(({ color }) => color.role === role),
+  }));
+  groups.push({ title: UNASSIGNED_ROLE_TITLE, colors: indexed.filter(({ color }) => !color.role) });
+  return groups.filter((group) => group.colors.length > 0);
+}
+
+/**
+ * Checks whether any color of a palette has a role assigned.
+ */
+export function hasColorRoles(colors: PaletteColor[]): boolean {
+  return colors.some((color) => color.role);
+}
@@ -0,0 +1,464 @@
+/**
+ * Versioned palette storage for the Color Palette Storage extension.
+ *
+ * Palettes and keywords are stored in Raycast's local storage as JSON. This module
+ * tags that data with a schema version, upgrades older data through ordered migrations
+ * when it is loaded, and validates every palette record. Records that cannot be read
+ * are moved to a quarantine entry instead of breaking the views, so they can be
+ * inspected, copied or discarded later. Deleted palettes are kept in a trash entry
+ * until they are restored or purged, and collections are stored next to the palettes.
+ */
+
+import { LocalStorage } from "@raycast/api";
+import { PaletteCollection, PaletteColor, StoredPalette, TrashedPalette, UsageStats } from "../types";
+import { isColorRole } from "./paletteColors";
+import { normalizeColor } from "./parseColor";
+
+/**
+ * Local storage keys used by the extension.
+ */
+export const STORAGE_KEYS = {
+  /** JSON array of palettes */
+  palettes: "color-palettes-list",
+  /** JSON array of every keyword ever used */
+  keywords: "color-palettes-keywords",
+  /** Schema version of the stored data (absent for data written before versioning) */
+  schemaVersion: "color-palettes-schema-version",
+  /** JSON array of records that failed validation */
+  quarantine: "color-palettes-quarantine",
+  /** JSON array of deleted palettes */
+  trash: "color-palettes-trash",
+  /** JSON array of palette collections */
+  collections: "color-palettes-collections",
+  /** Sort order of the palette list, kept between launches */
+  sortOrder: "color-palettes-sort-order",
+} as const;
+
+/** Milliseconds in a day, used for trash retention */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schema version written by this version of the extension.
+ *
+ * - 1: palettes with plain string colors (and an optional `normalizedColors` array)
+ * - 2: palettes with {@link PaletteColor} objects carrying name, role and note
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * A stored record that failed validation, kept aside so that no data is lost.
+ */
+export type QuarantinedRecord = {
+  /** The raw record as it was found in storage */
+  record: unknown;
+  /** Why the record was rejected */
+  reason: string;
+  /** ISO timestamp of when the record was quarantined */
+  quarantinedAt: string;
+};
+
+/**
+ * Everything read from storage by {@link loadPaletteLibrary}.
+ */
+export type PaletteLibrary = {
+  /** Valid palettes, upgraded to the current schema */
+  palettes: StoredPalette[];
+  /** Records rejected now or during earlier loads */
+  quarantined: QuarantinedRecord[];
+};
+
+/**
+ * A single schema upgrade, applied to raw palette records.
+ */
+type Migration = {
+  /** Version the records have after this migration */
+  version: number;
+  /** Short description of the change, for logs */
+  description: string;
+  /** Upgrades one raw record; records that are not objects are passed through for validation to reject */
+  migrate: (record: Record<string, unknown>) => Record<string, unknown>;
+};
+
+/**
+ * Ordered list of migrations. Add new entries at the end and bump {@link CURRENT_SCHEMA_VERSION}.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Convert string colors to color objects with canonical hex values",
+    migrate: ({ normalizedColors, ...record }) => ({
+      ...record,
+      colors: Array.isArray(record.colors)
+        ? record.colors.map((color, index) =>
+            typeof color === "string"
+              ? {
+                  value: color,
+                  normalized:
+                    (Array.isArray(normalizedColors) && typeof normalizedColors[index] === "string"
+                      ? normalizedColors[index]
+                      : normalizeColor(color)) ?? color,
+                }
+              : color,
+          )
+        : record.colors,
+    }),
+  },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === "string";
+
+/**
+ * Upgrades raw palette records from a schema version to the current one.
+ *
+ * @param records - Raw records as read from storage or from a backup
+ * @param fromVersion - Schema version the records were written with
+ * @returns The upgraded records, still unvalidated
+ */
+export function migratePaletteRecords(records: unknown[], fromVersion: number): unknown[] {
+  return MIGRATIONS.filter((migration) => migration.version > fromVersion).reduce(
+    (current, migration) => current.map((record) => (isRecord(record) ? migration.migrate(record) : record)),
+    records,
+  );
+}
+
+/**
+ * Returns usage statistics if they are well-formed. Broken statistics are dropped
+ * rather than rejecting the whole palette, since they are not user content.
+ */
+const readUsage = (usage: unknown): UsageStats | undefined =>
+  isRecord(usage) &&
+  typeof usage.copyCount === "number" &&
+  usage.copyCount >= 0 &&
+  typeof usage.lastCopiedAt === "string" &&
+  !Number.isNaN(Date.parse(usage.lastCopiedAt))
+    ? { copyCount: usage.copyCount, lastCopiedAt: usage.lastCopiedAt }
+    : undefined;
+
+/**
+ * Validates a single palette color record.
+ *
+ * @returns The color, or an error message
+ */
+const validateColor = (color: unknown, index: number): PaletteColor | string => {
+  if (!isRecord(color)) return `Color ${index + 1} is not an object`;
+  if (typeof color.value !== "string" || !color.value) return `Color ${index + 1} has no value`;
+  if (typeof color.normalized !== "string") return `Color ${index + 1} has no canonical value`;
+  if (!isOptionalString(color.name) || !isOptionalString(color.note)) {
+    return `Color ${index + 1} has an invalid name or note`;
+  }
+  if (color.role !== undefined && !isColorRole(color.role)) return `Color ${index + 1} has an unknown role`;
+
+  const { usage, ...rest } = color;
+  const validUsage = readUsage(usage);
+  return { ...rest, ...(validUsage && { usage: validUsage }) } as PaletteColor;
+};
+
+/**
+ * Validates a palette record against the current schema.
+ *
+ * Missing optional content (description, keywords) is repaired with empty defaults and
+ * malformed favorite flags or usage statistics are dropped; anything else that does not
+ * match {@link StoredPalette} rejects the record.
+ *
+ * @param record - A raw record, already migrated to the current schema
+ * @returns The palette, or an error message describing the first problem found
+ *
+ * @example
+ * ```typescript
+ * validatePalette({ id: "1", name: "Ocean", mode: "dusk", colors: [], createdAt: "" });
+ * // Returns: 'Unknown mode "dusk"'
+ * ```
+ */
+export function validatePalette(record: unknown): StoredPalette | string {
+  if (!isRecord(record)) return "Not a palette object";
+  if (typeof record.id !== "string" || !record.id) return "Missing id";
+  if (typeof record.name !== "string" || !record.name) return "Missing name";
+  if (record.mode !== "light" && record.mode !== "dark") return `Unknown mode "${String(record.mode)}"`;
+  if (!isOptionalString(record.description)) return "Invalid description";
+  if (
+    record.keywords !== undefined &&
+    (!Array.isArray(record.keywords) || record.keywords.some((keyword) => typeof keyword !== "string"))
+  ) {
+    return "Invalid keywords";
+  }
+  if (!Array.isArray(record.colors) || record.colors.length === 0) return "Missing colors";
+  if (typeof record.createdAt !== "string" || Number.isNaN(Date.parse(record.createdAt))) {
+    return "Invalid creation date";
+  }
+  if (!isOptionalString(record.updatedAt) || !isOptionalString(record.linkedPaletteId)) {
+    return "Invalid update date or linked palette";
+  }
+  if (!isOptionalString(record.collectionId)) return "Invalid collection";
+
+  const colors: PaletteColor[] = [];
+  for (const [index, color] of record.colors.entries()) {
+    const result = validateColor(color, index);
+    if (typeof result === "string") return result;
+    colors.push(result);
+  }
+
+  const { favorite, usage, ...rest } = record;
+  const validUsage = readUsage(usage);
+  return {
+    ...rest,
+    description: (record.description as string | undefined) ?? "",
+    keywords: (record.keywords as string[] | undefined) ?? [],
+    colors,
+    ...(favorite === true && { favorite }),
+    ...(validUsage && { usage: validUsage }),
+  } as StoredPalette;
+}
+
+/**
+ * Splits raw records into valid palettes and quarantined records.
+ * Records reusing an id already taken by an earlier record are quarantined as well.
+ *
+ * @param records - Raw records, already migrated to the current schema
+ * @returns Valid palettes and the rejected records
+ */
+export function validatePaletteRecords(records: unknown[]): {
+  palettes: StoredPalette[];
+  invalid: QuarantinedRecord[];
+} {
+  const quarantinedAt = new Date().toISOString();
+  const palettes: StoredPalette[] = [];
+  const invalid: QuarantinedRecord[] = [];
+
+  records.forEach((record) => {
+    const result = validatePalette(record);
+    if (typeof result === "string") {
+      invalid.push({ record, reason: result, quarantinedAt });
+    } else if (palettes.some((palette) => palette.id === result.id)) {
+      invalid.push({ record, reason: `Duplicate id "${result.id}"`, quarantinedAt });
+    } else {
+      palettes.push(result);
+    }
+  });
+
+  return { palettes, invalid };
+}
+
+/**
+ * Reads and parses a JSON value from local storage.
+ *
+ * @returns The parsed value, undefined when the key is missing, or an Error when the JSON is broken
+ */
+const readJson = async (key: string): Promise<unknown> => {
+  const raw = await LocalStorage.getItem<string>(key);
+  if (raw === undefined) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return new Error(raw);
+  }
+};
+
+/**
+ * Reads the quarantined records from local storage.
+ */
+const readQuarantine = async (): Promise<QuarantinedRecord[]> => {
+  const quarantine = await readJson(STORAGE_KEYS.quarantine);
+  return Array.isArray(quarantine) ? (quarantine as QuarantinedRecord[]) : [];
+};
+
+/**
+ * Loads the palette library, migrating and validating it on the way.
+ *
+ * When the stored data is older than {@link CURRENT_SCHEMA_VERSION}, or when invalid
+ * records are found, the cleaned palettes are written back together with the current
+ * schema version and the invalid records are appended to the quarantine.
+ *
+ * @returns Valid palettes and every quarantined record
+ * @throws When the stored data was written by a newer version of the extension
+ */
+export async function loadPaletteLibrary(): Promise<PaletteLibrary> {
+  const storedVersion = Number((await LocalStorage.getItem<string | number>(STORAGE_KEYS.schemaVersion)) ?? 1);
+  if (storedVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Palette storage uses schema version ${storedVersion}, newer than ${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  const stored = await readJson(STORAGE_KEYS.palettes);
+  const quarantinedAt = new Date().toISOString();
+  const unreadable: QuarantinedRecord[] = [];
+  let records: unknown[] = [];
+
+  if (Array.isArray(stored)) {
+    records = stored;
+  } else if (stored !== undefined) {
+    // The whole list is unreadable: keep the raw value aside and start from an empty list
+    const record = stored instanceof Error ? stored.message : stored;
+    unreadable.push({ record, reason: "Palette list is not a JSON array", quarantinedAt });
+  }
+
+  const { palettes, invalid } = validatePaletteRecords(migratePaletteRecords(records, storedVersion));
+  const rejected = [...unreadable, ...invalid];
+  let quarantined = await readQuarantine();
+
+  if (rejected.length > 0) {
+    quarantined = [...quarantined, ...rejected];
+    await LocalStorage.setItem(STORAGE_KEYS.quarantine, JSON.stringify(quarantined));
+  }
+
+  if (storedVersion !== CURRENT_SCHEMA_VERSION || rejected.length > 0) {
+    await migrateTrash(storedVersion);
+    await savePalettes(palettes);
+    await sanitizeKeywords();
+  }
+
+  return { palettes, quarantined };
+}
+
+/**
+ * Persists the palette list together with the current schema version.
+ *
+ * @param palettes - The complete list of palettes to store
+ */
+export async function savePalettes(palettes: StoredPalette[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEYS.palettes, JSON.stringify(palettes));
+  await LocalStorage.setItem(STORAGE_KEYS.schemaVersion, CURRENT_SCHEMA_VERSION);
+}
+
+/**
+ * Replaces the quarantined records (e.g. after some were discarded).
+ *
+ * @param records - The records to keep in quarantine
+ */
+export async function saveQuarantine(records: QuarantinedRecord[]): Promise<void> {
+  if (records.length === 0) {
+    await LocalStorage.removeItem(STORAGE_KEYS.quarantine);
+    return;
+  }
+  await LocalStorage.setItem(STORAGE_KEYS.quarantine, JSON.stringify(records));
+}
+
+/**
+ * Drops anything that is not a non-empty string from the stored keyword list.
+ */
+const sanitizeKeywords = async () => {
+  const keywords = await readJson(STORAGE_KEYS.keywords);
+  if (keywords === undefined) return;
+
+  const valid = Array.isArray(keywords)
+    ? [...new Set(keywords.filter((keyword): keyword is string => typeof keyword === "string" && keyword !== ""))]
+    : [];
+  if (!Array.isArray(keywords) || valid.length !== keywords.length) {
+    await LocalStorage.setItem(STORAGE_KEYS.keywords, JSON.stringify(valid));
+  }
+};
+
+/**
+ * Loads the global keyword list, ignoring anything that is not a non-empty string.
+ *
+ * @returns Keywords in the order they were added
+ */
+export async function loadKeywords(): Promise<string[]> {
+  const keywords = await readJson(STORAGE_KEYS.keywords);
+  return Array.isArray(keywords)
+    ? [...new Set(keywords.filter((keyword): keyword is string => typeof keyword === "string" && keyword !== ""))]
+    : [];
+}
+
+/**
+ * Persists the global keyword list.
+ *
+ * @param keywords - The complete list of keywords to store
+ */
+export async function saveKeywords(keywords: string[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEYS.keywords, JSON.stringify(keywords));
+}
+
+/**
+ * Reads the trash, dropping entries that are not valid trashed palettes.
+ */
+const readTrash = async (): Promise<TrashedPalette[]> => {
+  const trash = await readJson(STORAGE_KEYS.trash);
+  if (!Array.isArray(trash)) return [];
+
+  return trash.flatMap((entry) => {
+    const palette = validatePalette(entry?.palette);
+    return typeof palette === "string" || typeof entry.deletedAt !== "string"
+      ? []
+      : [{ palette, deletedAt: entry.deletedAt, position: Number(entry.position) || 0 }];
+  });
+};
+
+/**
+ * Upgrades the palettes in the trash from a schema version to the current one.
+ */
+const migrateTrash = async (fromVersion: number) => {
+  const trash = await readJson(STORAGE_KEYS.trash);
+  if (!Array.isArray(trash) || fromVersion === CURRENT_SCHEMA_VERSION) return;
+
+  const palettes = migratePaletteRecords(
+    trash.map((entry) => entry?.palette),
+    fromVersion,
+  );
+  await LocalStorage.setItem(
+    STORAGE_KEYS.trash,
+    JSON.stringify(trash.map((entry, index) => ({ ...entry, palette: palettes[index] }))),
+  );
+};
+
+/**
+ * Loads the trash, permanently deleting entries older than the retention period.
+ *
+ * @param retentionDays - Days a deleted palette is kept; 0 or less keeps entries forever
+ * @returns Trashed palettes, most recently deleted first
+ */
+export async function loadTrash(retentionDays: number): Promise<TrashedPalette[]> {
+  const trash = await readTrash();
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  const kept = retentionDays > 0 ? trash.filter((entry) => Date.parse(entry.deletedAt) >= cutoff) : trash;
+
+  if (kept.length !== trash.length) {
+    await saveTrash(kept);
+  }
+  return kept;
+}
+
+/**
+ * Persists the trash.
+ *
+ * @param trash - Trashed palettes to keep
+ */
+export async function saveTrash(trash: TrashedPalette[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEYS.trash, JSON.stringify(trash));
+}
+
+/**
+ * Checks whether a raw record is a valid collection.
+ */
+export function isValidCollection(record: unknown): record is PaletteCollection {
+  return (
+    isRecord(record) &&
+    typeof record.id === "string" &&
+    record.id !== "" &&
+    typeof record.name === "string" &&
+    record.name !== "" &&
+    typeof record.createdAt === "string" &&
+    isOptionalString(record.icon) &&
+    isOptionalString(record.color)
+  );
+}
+
+/**
+ * Loads the collections, dropping entries that are not valid collections.
+ *
+ * @returns Collections in the order they were created
+ */
+export async function loadCollections(): Promise<PaletteCollection[]> {
+  const collections = await readJson(STORAGE_KEYS.collections);
+  return Array.isArray(collections) ? collections.filter(isValidCollection) : [];
+}
+
+/**
+ * Persists the collections.
+ *
+ * @param collections - The complete list of collections to store
+ */
+export async function saveCollections(collections: PaletteCollection[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEYS.collections, JSON.stringify(collections));
+}
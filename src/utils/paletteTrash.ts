@@ -0,0 +1,124 @@
+/**
+ * Trash utilities for the Color Palette Storage extension.
+ *
+ * Deleting a palette moves it to a trash entry in local storage instead of dropping
+ * it, so it can be restored (e.g. from the Undo action of the deletion toast) until it
+ * is purged by hand or expires after the configured retention period.
+ *
+ * Every operation reads the current palettes and trash from storage right before
+ * writing them, so delayed callbacks such as toast actions never work on stale data.
+ */
+
+import { getPreferenceValues } from "@raycast/api";
+import { StoredPalette, TrashedPalette } from "../types";
+import { loadPaletteLibrary, loadTrash, savePalettes, saveTrash } from "./paletteStorage";
+
+/** Retention used when the preference is missing or not a number */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Palettes and trash after a trash operation.
+ */
+export type TrashState = {
+  palettes: StoredPalette[];
+  trash: TrashedPalette[];
+};
+
+/**
+ * Returns how many days deleted palettes are kept, from the extension preferences.
+ * 0 keeps them until they are purged by hand.
+ */
+export function getTrashRetentionDays(): number {
+  const { trashRetentionDays } = getPreferenceValues<{ trashRetentionDays?: string }>();
+  const days = parseInt(trashRetentionDays ?? "", 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+/**
+ * Reads the palettes and the (auto-purged) trash from storage.
+ */
+const readState = async (): Promise<TrashState> => {
+  const [{ palettes }, trash] = await Promise.all([loadPaletteLibrary(), loadTrash(getTrashRetentionDays())]);
+  return { palettes, trash };
+};
+
+/**
+ * Writes the palettes and the trash to storage.
+ */
+const writeState = async (state: TrashState): Promise<TrashState> => {
+  await savePalettes(state.palettes);
+  await saveTrash(state.trash);
+  return state;
+};
+
+/**
+ * Moves a palette to the trash, unlinking its light/dark counterpart.
+ *
+ * @param paletteId - ID of the palette to delete
+ * @returns The updated palettes and trash
+ */
+export async function trashPalette(paletteId: string): Promise<TrashState> {
+  const { palettes, trash } = await readState();
+  const position = palettes.findIndex((palette) => palette.id === paletteId);
+  if (position === -1) return { palettes, trash };
+
+  return writeState({
+    palettes: palettes
+      .filter((palette) => palette.id !== paletteId)
+      // Unlink the counterpart of the deleted palette, if any
+      .map(({ linkedPaletteId, ...palette }) =>
+        linkedPaletteId && linkedPaletteId !== paletteId ? { ...palette, linkedPaletteId } : palette,
+      ),
+    trash: [{ palette: palettes[position], deletedAt: new Date().toISOString(), position }, ...trash],
+  });
+}
+
+/**
+ * Puts trashed palettes back in the list, at the position they had when deleted.
+ *
+ * Links to light/dark counterparts are restored when the counterpart still exists and
+ * is not linked to another palette meanwhile; otherwise they are dropped. A palette whose
+ * id was reused meanwhile (e.g. by a restored backup) gets a new id.
+ *
+ * @param paletteIds - IDs of the trashed palettes to restore
+ * @returns The updated palettes and trash
+ */
+export async function restorePalettes(paletteIds: string[]): Promise<TrashState> {
+  const state = await readState();
+  const toRestore = state.trash
+    .filter((entry) => paletteIds.includes(entry.palette.id))
+    // Restore the lowest positions first so later insertions land where they were
+    .sort((first, second) => first.position - second.position);
+
+  const palettes = toRestore.reduce((current, { palette, position }, index) => {
+    const id = current.some((item) => item.id === palette.id) ? `${Date.now() + index}` : palette.id;
+    const partner = current.find((item) => item.id === palette.linkedPaletteId && !item.linkedPaletteId);
+    const { linkedPaletteId, ...rest } = palette;
+    const restored: StoredPalette = { ...rest, id, ...(partner && { linkedPaletteId }) };
+
+    const updated = partner
+      ? current.map((item) => (item.id === partner.id ? { ...item, linkedPaletteId: id } : item))
+      : current;
+    const insertAt = Math.min(position, updated.length);
+    return [...updated.slice(0, insertAt), restored, ...updated.slice(insertAt)];
+  }, state.palettes);
+
+  return writeState({
+    palettes,
+    trash: state.trash.filter((entry) => !paletteIds.includes(entry.palette.id)),
+  });
+}
+
+/**
+ * Permanently deletes palettes from the trash.
+ *
+ * @param paletteIds - IDs of the trashed palettes to purge
+ * @returns The updated palettes and trash
+ */
+export async function purgePalettes(paletteIds: string[]): Promise<TrashState> {
+  const state = await readState();
+  return writeState({
+    palettes: state.palettes,
+    trash: state.trash.filter((entry) => !paletteIds.includes(entry.palette.id)),
+  });
+}
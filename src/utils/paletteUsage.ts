@@ -0,0 +1,117 @@
+/**
+ * Usage tracking and sorting utilities for the Color Palette Storage extension.
+ *
+ * Copying a palette (or one of its colors) updates its copy count and last-copied time.
+ * These statistics, together with the favorite flag, drive the sort orders of the list.
+ */
+
+import { Icon } from "@raycast/api";
+import { PaletteColor, StoredPalette, UsageStats } from "../types";
+
+/**
+ * Available orders of the palette list.
+ */
+export type SortOrder = "created" | "updated" | "name" | "most-used" | "recently-used" | "color-count";
+
+/**
+ * Display metadata for every sort order, in menu order. The first one is the default.
+ */
+export const SORT_ORDERS: { order: SortOrder; title: string; icon: Icon }[] = [
+  { order: "created", title: "Recently Created", icon: Icon.Calendar },
+  { order: "updated", title: "Recently Updated", icon: Icon.Pencil },
+  { order: "name", title: "Name", icon: Icon.Text },
+  { order: "most-used", title: "Most Used", icon: Icon.BarChart },
+  { order: "recently-used", title: "Recently Used", icon: Icon.Clock },
+  { order: "color-count", title: "Number of Colors", icon: Icon.Swatch },
+];
+
+/**
+ * Checks whether a value is a known sort order (e.g. one read back from storage).
+ */
+export function isSortOrder(value: unknown): value is SortOrder {
+  return SORT_ORDERS.some(({ order }) => order === value);
+}
+
+/**
+ * Returns the usage statistics after one more copy.
+ */
+const incrementUsage = (usage: UsageStats | undefined, copiedAt: string): UsageStats => ({
+  copyCount: (usage?.copyCount ?? 0) + 1,
+  lastCopiedAt: copiedAt,
+});
+
+/**
+ * Records that a palette, or one of its colors, was copied.
+ *
+ * @param palette - The copied palette
+ * @param colorIndex - Index of the copied color; omit when the whole palette was copied
+ * @returns The palette with updated statistics
+ */
+export function recordPaletteCopy(palette: StoredPalette, colorIndex?: number): StoredPalette {
+  const copiedAt = new Date().toISOString();
+  return {
+    ...palette,
+    usage: incrementUsage(palette.usage, copiedAt),
+    colors:
+      colorIndex === undefined
+        ? palette.colors
+        : palette.colors.map((color, index) =>
+            index === colorIndex ? { ...color, usage: incrementUsage(color.usage, copiedAt) } : color,
+          ),
+  };
+}
+
+/**
+ * Carries the usage statistics of the previous colors of an edited palette over to its
+ * new colors, matching them by canonical value (so reordering or renaming keeps them).
+ *
+ * @param colors - The new colors, without statistics
+ * @param previousColors - The colors before the edit
+ * @returns The new colors with their statistics
+ */
+export function carryOverColorUsage(colors: PaletteColor[], previousColors: PaletteColor[]): PaletteColor[] {
+  return colors.map((color) => {
+    const usage = previousColors.find((previous) => previous.normalized === color.normalized)?.usage;
+    return usage ? { ...color, usage } : color;
+  });
+}
+
+/**
+ * Compares ISO timestamps, most recent first; missing timestamps go last.
+ */
+const compareRecent = (first?: string, second?: string) => (second ?? "").localeCompare(first ?? "");
+
+/**
+ * Compares two palettes according to a sort order (favorites are handled by {@link sortPalettes}).
+ */
+const comparePalettes = (first: StoredPalette, second: StoredPalette, order: SortOrder): number => {
+  switch (order) {
+    case "created":
+      return compareRecent(first.createdAt, second.createdAt);
+    case "updated":
+      return compareRecent(first.updatedAt ?? first.createdAt, second.updatedAt ?? second.createdAt);
+    case "name":
+      return first.name.localeCompare(second.name, undefined, { sensitivity: "base", numeric: true });
+    case "most-used":
+      return (second.usage?.copyCount ?? 0) - (first.usage?.copyCount ?? 0);
+    case "recently-used":
+      return compareRecent(first.usage?.lastCopiedAt, second.usage?.lastCopiedAt);
+    case "color-count":
+      return second.colors.length - first.colors.length;
+  }
+};
+
+/**
+ * Sorts palettes with favorites pinned to the top. Palettes that compare equal keep
+ * their stored order.
+ *
+ * @param palettes - The palettes to sort (not modified)
+ * @param order - The sort order
+ * @returns A new, sorted array
+ */
+export function sortPalettes(palettes: StoredPalette[], order: SortOrder): StoredPalette[] {
+  return [...palettes].sort(
+    (first, second) =>
+      Number(Boolean(second.favorite)) - Number(Boolean(first.favorite)) || comparePalettes(first, second, order),
+  );
+}
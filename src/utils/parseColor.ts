@@ -0,0 +1,300 @@
+/**
+ * Color parsing and normalization utilities for the Color Palette Storage extension.
+ *
+ * This module is the single entry point for turning user-entered color text into the
+ * internal {@link RgbaColor} model. It understands every color syntax defined by
+ * CSS Color Module Level 4 and produces a canonical hex representation for storage.
+ */
+
+import { ColorTriplet, RgbaColor } from "../types";
+import {
+  a98RgbToXyz,
+  displayP3ToXyz,
+  labToXyz,
+  linearSrgbToXyz,
+  oklabToXyz,
+  polarToRectangular,
+  prophotoRgbToXyz,
+  rec2020ToXyz,
+  xyzD50ToD65,
+  xyzToSrgb,
+} from "./colorSpaces";
+import { getNamedColor } from "./namedColors";
+
+/** Numeric CSS component with its optional unit */
+type Component = { value: number; unit: string } | "none";
+
+const COMPONENT_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/i;
+const HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_PATTERN = /^([a-z-]+)\(\s*(.*?)\s*\)$/i;
+
+/** Conversions from `color()` predefined spaces to CIE XYZ (D65) */
+const PREDEFINED_SPACES: Record<string, (components: ColorTriplet) => ColorTriplet> = {
+  "srgb-linear": linearSrgbToXyz,
+  "display-p3": displayP3ToXyz,
+  "a98-rgb": a98RgbToXyz,
+  "prophoto-rgb": prophotoRgbToXyz,
+  rec2020: rec2020ToXyz,
+  xyz: (xyz) => xyz,
+  "xyz-d65": (xyz) => xyz,
+  "xyz-d50": xyzD50ToD65,
+};
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+const parseComponent = (token: string): Component | null => {
+  if (token.toLowerCase() === "none") return "none";
+  const match = token.match(COMPONENT_PATTERN);
+  return match ? { value: parseFloat(match[1]), unit: (match[2] ?? "").toLowerCase() } : null;
+};
+
+/**
+ * Resolves a number or percentage. `percentReference` is the value that 100% maps to.
+ */
+const toNumber = (component: Component, percentReference: number): number | null => {
+  if (component === "none") return 0;
+  if (component.unit === "") return component.value;
+  if (component.unit === "%") return (component.value / 100) * percentReference;
+  return null;
+};
+
+/**
+ * Resolves a hue (plain number or angle) into degrees.
+ */
+const toHue = (component: Component): number | null => {
+  if (component === "none") return 0;
+  const factors: Record<string, number> = { "": 1, deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+  const factor = factors[component.unit];
+  return factor === undefined ? null : component.value * factor;
+};
+
+/**
+ * Resolves the optional alpha component. Values outside 0-1 are rejected.
+ */
+const toAlpha = (component: Component | undefined): number | null => {
+  if (component === undefined) return 1;
+  const alpha = toNumber(component, 1);
+  return alpha !== null && alpha >= 0 && alpha <= 1 ? alpha : null;
+};
+
+/**
+ * Splits the arguments of a color function into components and an optional alpha.
+ * Supports both the modern space-separated syntax (`r g b / a`) and, where allowed,
+ * the legacy comma-separated syntax (`r, g, b, a`).
+ */
+const splitArguments = (args: string, allowLegacy: boolean): { tokens: string[]; alpha?: string } | null => {
+  if (args.includes(",")) {
+    if (!allowLegacy || args.includes("/")) return null;
+    const tokens = args.split(",").map((token) => token.trim());
+    if (tokens.some((token) => !token || /\s/.test(token))) return null;
+    return tokens.length === 4 ? { tokens: tokens.slice(0, 3), alpha: tokens[3] } : { tokens };
+  }
+
+  const [main, alpha, ...rest] = args.split("/").map((part) => part.trim());
+  if (rest.length > 0 || alpha === "") return null;
+  return { tokens: main.split(/\s+/).filter(Boolean), alpha };
+};
+
+const hslToRgb = (hue: number, saturation: number, lightness: number): ColorTriplet => {
+  const h = ((hue % 360) + 360) % 360;
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    return lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+const hwbToRgb = (hue: number, whiteness: number, blackness: number): ColorTriplet => {
+  if (whiteness + blackness >= 1) {
+    const gray = whiteness / (whiteness + blackness);
+    return [gray, gray, gray];
+  }
+  return hslToRgb(hue, 1, 0.5).map((value) => value * (1 - whiteness - blackness) + whiteness) as ColorTriplet;
+};
+
+const parseHex = (hex: string): RgbaColor | null => {
+  const match = hex.match(HEX_PATTERN);
+  if (!match) return null;
+
+  let digits = match[1];
+  if (digits.length <= 4) {
+    digits = digits
+      .split("")
+      .map((digit) => digit + digit)
+      .join("");
+  }
+
+  const bytes = digits.match(/../g)!.map((pair) => parseInt(pair, 16) / 255);
+  return { r: bytes[0], g: bytes[1], b: bytes[2], alpha: bytes[3] ?? 1 };
+};
+
+/**
+ * Converts the components of a color function into sRGB channels.
+ * Returns null when the component count, units or ranges are invalid.
+ */
+const functionToRgb = (name: string, components: Component[]): ColorTriplet | null => {
+  const [first, second, third] = components;
+
+  switch (name) {
+    case "rgb": {
+      const channels = components.map((component) => toNumber(component, 255));
+      if (channels.some((channel) => channel === null || channel < 0 || channel > 255)) return null;
+      return (channels as number[]).map((channel) => channel / 255) as ColorTriplet;
+    }
+    case "hsl":
+    case "hwb": {
+      const hue = toHue(first);
+      // Modern syntax also accepts plain numbers, interpreted as percentages
+      const x = toNumber(second, 100);
+      const y = toNumber(third, 100);
+      if (hue === null || x === null || y === null || [x, y].some((value) => value < 0 || value > 100)) return null;
+      return name === "hsl" ? hslToRgb(hue, x / 100, y / 100) : hwbToRgb(hue, x / 100, y / 100);
+    }
+    case "lab":
+    case "oklab": {
+      const isOk = name === "oklab";
+      const l = toNumber(first, isOk ? 1 : 100);
+      const a = toNumber(second, isOk ? 0.4 : 125);
+      const b = toNumber(third, isOk ? 0.4 : 125);
+      if (l === null || a === null || b === null) return null;
+      const lightness = clamp(l, 0, isOk ? 1 : 100);
+      return xyzToSrgb(isOk ? oklabToXyz([lightness, a, b]) : labToXyz([lightness, a, b]));
+    }
+    case "lch":
+    case "oklch": {
+      const isOk = name === "oklch";
+      const l = toNumber(first, isOk ? 1 : 100);
+      const c = toNumber(second, isOk ? 0.4 : 150);
+      const h = toHue(third);
+      if (l === null || c === null || h === null) return null;
+      const lab = polarToRectangular([clamp(l, 0, isOk ? 1 : 100), Math.max(0, c), h]);
+      return xyzToSrgb(isOk ? oklabToXyz(lab) : labToXyz(lab));
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parses any CSS Color Module Level 4 color string into the internal {@link RgbaColor} model.
+ *
+ * **Supported syntaxes:**
+ * - Hex: `#RGB`, `#RGBA`, `#RRGGBB`, `#RRGGBBAA`
+ * - Named colors (e.g. `rebeccapurple`) and `transparent`
+ * - `rgb()`/`rgba()` and `hsl()`/`hsla()` in both legacy comma and modern space syntax
+ * - `hwb()`, `lab()`, `lch()`, `oklab()`, `oklch()` with optional `/ alpha`
+ * - `color()` with `srgb`, `srgb-linear`, `display-p3`, `a98-rgb`, `prophoto-rgb`,
+ *   `rec2020`, `xyz`, `xyz-d50` and `xyz-d65`
+ *
+ * Hues accept `deg`, `rad`, `grad` and `turn` units, and any component may be `none`.
+ * Components of the sRGB-bounded syntaxes (rgb, hsl, hwb) and alpha must be within range,
+ * while colors from wider spaces are clipped into the sRGB gamut.
+ *
+ * @param input - The color string to parse
+ * @returns The parsed color, or null if the input is not a valid color
+ *
+ * @example
+ * ```typescript
+ * parseColor("#FF5733");              // { r: 1, g: 0.341, b: 0.2, alpha: 1 }
+ * parseColor("hsl(210 40% 50% / 0.5)"); // { r: 0.3, g: 0.5, b: 0.7, alpha: 0.5 }
+ * parseColor("rebeccapurple");        // { r: 0.4, g: 0.2, b: 0.6, alpha: 1 }
+ * parseColor("rgb(256, 0, 0)");       // null (out of range)
+ * ```
+ */
+export function parseColor(input: string): RgbaColor | null {
+  if (!input || typeof input !== "string") return null;
+
+  const color = input.trim().toLowerCase();
+  if (!color) return null;
+
+  if (color.startsWith("#")) return parseHex(color);
+  if (color === "transparent") return { r: 0, g: 0, b: 0, alpha: 0 };
+  const namedColor = getNamedColor(color);
+  if (namedColor) return parseHex(namedColor);
+
+  const match = color.match(FUNCTION_PATTERN);
+  if (!match) return null;
+
+  // rgba() and hsla() are plain aliases of rgb() and hsl()
+  const name = match[1].replace(/^(rgb|hsl)a$/, "$1");
+  const args = splitArguments(match[2], name === "rgb" || name === "hsl");
+  if (!args) return null;
+
+  let tokens = args.tokens;
+  let space: string | undefined;
+  if (name === "color") {
+    [space, ...tokens] = tokens;
+  }
+
+  const components = tokens.map(parseComponent);
+  const alphaComponent = args.alpha !== undefined ? parseComponent(args.alpha) : undefined;
+  if (components.length !== 3 || components.some((component) => component === null) || alphaComponent === null) {
+    return null;
+  }
+
+  const alpha = toAlpha(alphaComponent);
+  if (alpha === null) return null;
+
+  let rgb: ColorTriplet | null;
+  if (name === "color") {
+    const values = (components as Component[]).map((component) => toNumber(component, 1));
+    if (!space || values.some((value) => value === null)) return null;
+    if (space === "srgb") {
+      rgb = values as ColorTriplet;
+    } else {
+      const toXyz = PREDEFINED_SPACES[space];
+      rgb = toXyz ? xyzToSrgb(toXyz(values as ColorTriplet)) : null;
+    }
+  } else {
+    rgb = functionToRgb(name, components as Component[]);
+  }
+
+  if (!rgb) return null;
+
+  // Gamut-map by clipping so that every parsed color is displayable as sRGB
+  const [r, g, b] = rgb.map((channel) => clamp(channel));
+  return { r, g, b, alpha };
+}
+
+/**
+ * Formats a color as an uppercase hex string.
+ *
+ * Opaque colors produce `#RRGGBB`; translucent colors produce `#RRGGBBAA`.
+ *
+ * @param color - The color to format
+ * @returns The hex representation
+ *
+ * @example
+ * ```typescript
+ * formatHex({ r: 1, g: 0, b: 0, alpha: 1 });   // "#FF0000"
+ * formatHex({ r: 1, g: 0, b: 0, alpha: 0.5 }); // "#FF000080"
+ * ```
+ */
+export function formatHex(color: RgbaColor): string {
+  const toByte = (value: number) =>
+    Math.round(clamp(value) * 255)
+      .toString(16)
+      .padStart(2, "0");
+
+  const hex = `#${toByte(color.r)}${toByte(color.g)}${toByte(color.b)}`;
+  return (color.alpha < 1 ? hex + toByte(color.alpha) : hex).toUpperCase();
+}
+
+/**
+ * Normalizes any supported color string into its canonical stored form (uppercase hex).
+ *
+ * @param input - The color string to normalize
+ * @returns The canonical hex value, or null if the input is not a valid color
+ *
+ * @example
+ * ```typescript
+ * normalizeColor("rgb(255 87 51)");  // "#FF5733"
+ * normalizeColor("oklch(70% 0.1 200)"); // "#40B1B7"
+ * normalizeColor("not a color");     // null
+ * ```
+ */
+export function normalizeColor(input: string): string | null {
+  const color = parseColor(input);
+  return color ? formatHex(color) : null;
+}
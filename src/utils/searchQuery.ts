@@ -0,0 +1,288 @@
+/**
+ * Search query utilities for the Color Palette Storage extension.
+ *
+ * The palette search accepts free text combined with filters written as `key:value`,
+ * e.g. `ocean mode:dark -tag:neon colors:>5 created:>2025-01-01 has:#ff5733`.
+ * Any token can be negated with a leading `-`, and values containing spaces can be
+ * quoted (`collection:"Brand 2026"`). Every term of the query must match.
+ */
+
+import { PaletteCollection, StoredPalette } from "../types";
+import { findPaletteCollection } from "./collections";
+import { CSS_NAMED_COLORS } from "./namedColors";
+import { getNormalizedColors, getPaletteColorName } from "./paletteColors";
+import { normalizeColor } from "./parseColor";
+
+/**
+ * Data a query is evaluated against, besides the palette itself.
+ */
+export type SearchContext = {
+  collections: PaletteCollection[];
+};
+
+/**
+ * A single term of a parsed query.
+ */
+type SearchTerm = {
+  /** Whether the term excludes the palettes it matches */
+  negated: boolean;
+  /** Tests a palette against the term */
+  matches: (palette: StoredPalette, context: SearchContext) => boolean;
+};
+
+/**
+ * A parsed search query, ready to be matched against palettes.
+ */
+export type SearchQuery = {
+  terms: SearchTerm[];
+};
+
+/**
+ * A completion suggested while typing a filter.
+ */
+export type SearchHint = {
+  /** The suggested token, e.g. `tag:ocean` */
+  title: string;
+  /** What the token does */
+  description: string;
+  /** The complete search text after accepting the hint */
+  completion: string;
+};
+
+/**
+ * Supported filters, in help order.
+ */
+export const SEARCH_FILTERS: { key: string; examples: string[]; description: string }[] = [
+  { key: "mode", examples: ["mode:dark", "mode:light"], description: "Palettes of a mode" },
+  { key: "tag", examples: ["tag:ocean", "-tag:neon"], description: "Palettes with (or without) a keyword" },
+  { key: "colors", examples: ["colors:>5", "colors:3"], description: "Palettes by number of colors" },
+  { key: "created", examples: ["created:>2025-01-01", "created:2025-03"], description: "Palettes by creation date" },
+  { key: "updated", examples: ["updated:>=2025-06"], description: "Palettes by last edit (or creation) date" },
+  { key: "has", examples: ["has:#ff5733", 'has:"rgb(0 0 0)"'], description: "Palettes containing a color" },
+  { key: "collection", examples: ['collection:"Brand 2026"'], description: "Palettes of a collection" },
+  { key: "is", examples: ["is:favorite"], description: "Favorite palettes" },
+  { key: "similar", examples: ["similar:teal", "similar:#ff5733"], description: "Palettes ranked by color similarity" },
+];
+
+/** Splits a query into tokens, keeping quoted values (even unterminated ones) together */
+const TOKEN_PATTERN = /-?(?:[a-z]+:)?(?:"[^"]*"?|[^\s"]+)/gi;
+
+/** Comparison operators of numeric and date filters, longest first */
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(.*)$/;
+
+/** Dates accepted by date filters: a year, a month or a day */
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+/**
+ * Removes the quotes around a value.
+ */
+const unquote = (value: string) => value.replace(/^"/, "").replace(/"$/, "");
+
+/**
+ * Quotes a value when it contains spaces.
+ */
+const quote = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+/**
+ * Compares two values with an operator (`=` when the operator is empty).
+ */
+const compare = <T extends number | string>(left: T, operator: string, right: T): boolean => {
+  switch (operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    default:
+      return left === right;
+  }
+};
+
+/**
+ * Builds the matcher of a date filter. The palette date is truncated to the precision of
+ * the query date, so `created:2025-03` matches every palette created in March 2025.
+ */
+const createDateMatcher = (
+  key: string,
+  value: string,
+  getDate: (palette: StoredPalette) => string,
+): SearchTerm["matches"] => {
+  const [, operator = "", date] = value.match(COMPARISON_PATTERN) ?? [];
+  if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+    throw new Error(`"${value}" is not a date. Use YYYY, YYYY-MM or YYYY-MM-DD, e.g. ${key}:>2025-01-01`);
+  }
+  return (palette) => compare(getDate(palette).slice(0, date.length), operator, date);
+};
+
+/**
+ * Builds the matcher of a `key:value` filter.
+ *
+ * @throws When the key is unknown or the value is invalid for the key
+ */
+const createFilterMatcher = (key: string, value: string): SearchTerm["matches"] => {
+  switch (key) {
+    case "mode": {
+      if (value !== "light" && value !== "dark")
+        throw new Error(`Unknown mode "${value}". Use mode:light or mode:dark`);
+      return (palette) => palette.mode === value;
+    }
+    case "tag": {
+      return (palette) => palette.keywords.some((keyword) => keyword.toLowerCase() === value);
+    }
+    case "colors": {
+      const [, operator = "", count] = value.match(COMPARISON_PATTERN) ?? [];
+      if (!/^\d+$/.test(count)) throw new Error(`"${value}" is not a number of colors, e.g. colors:>5`);
+      return (palette) => compare(palette.colors.length, operator, Number(count));
+    }
+    case "created":
+      return createDateMatcher(key, value, (palette) => palette.createdAt);
+    case "updated":
+      return createDateMatcher(key, value, (palette) => palette.updatedAt ?? palette.createdAt);
+    case "has": {
+      const color = normalizeColor(value);
+      if (!color) throw new Error(`"${value}" is not a color, e.g. has:#ff5733`);
+      return (palette) => getNormalizedColors(palette).some((normalized) => normalized.toUpperCase() === color);
+    }
+    case "collection": {
+      return (palette, { collections }) => findPaletteCollection(palette, collections)?.name.toLowerCase() === value;
+    }
+    case "is": {
+      if (value !== "favorite") throw new Error(`Unknown value "${value}". Use is:favorite`);
+      return (palette) => Boolean(palette.favorite);
+    }
+    case "similar": {
+      // A valid similar: search is the whole query and is handled by parseColorSearch
+      if (!normalizeColor(value)) throw new Error(`"${value}" is not a color, e.g. similar:teal`);
+      throw new Error("similar: ranks every palette by color and cannot be combined with other terms");
+    }
+    default:
+      throw new Error(
+        `Unknown filter "${key}:". Use ${SEARCH_FILTERS.map((filter) => `${filter.key}:`).join(", ")} or plain text`,
+      );
+  }
+};
+
+/**
+ * Builds the matcher of a free-text term: a case-insensitive substring of the name,
+ * description, keywords, color names or color notes.
+ */
+const createTextMatcher =
+  (text: string): SearchTerm["matches"] =>
+  (palette) =>
+    palette.name.toLowerCase().includes(text) ||
+    palette.description.toLowerCase().includes(text) ||
+    palette.keywords.some((keyword) => keyword.toLowerCase().includes(text)) ||
+    palette.colors.some(
+      (color) =>
+        getPaletteColorName(color).toLowerCase().includes(text) || Boolean(color.note?.toLowerCase().includes(text)),
+    );
+
+/**
+ * Parses a search query.
+ *
+ * Filters with an empty value (e.g. `tag:` while it is being typed) are ignored.
+ *
+ * @param text - The search text
+ * @returns The parsed query
+ * @throws When a filter is unknown or has an invalid value; the message explains the problem
+ *
+ * @example
+ * ```typescript
+ * const query = parseSearchQuery("ocean mode:dark colors:>4");
+ * palettes.filter((palette) => matchesSearchQuery(palette, query, { collections }));
+ *
+ * parseSearchQuery("colors:many");
+ * // Throws: '"many" is not a number of colors, e.g. colors:>5'
+ * ```
+ */
+export function parseSearchQuery(text: string): SearchQuery {
+  const terms = (text.match(TOKEN_PATTERN) ?? []).flatMap((token): SearchTerm[] => {
+    const negated = token.startsWith("-") && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const filter = body.match(/^([a-z]+):(.*)$/i);
+
+    if (!filter) {
+      const phrase = unquote(body).toLowerCase();
+      return phrase ? [{ negated, matches: createTextMatcher(phrase) }] : [];
+    }
+
+    const value = unquote(filter[2]).trim().toLowerCase();
+    return value ? [{ negated, matches: createFilterMatcher(filter[1].toLowerCase(), value) }] : [];
+  });
+
+  return { terms };
+}
+
+/**
+ * Checks whether a palette matches every term of a query.
+ *
+ * @param palette - The palette to test
+ * @param query - The parsed query
+ * @param context - Collections used by `collection:` filters
+ */
+export function matchesSearchQuery(palette: StoredPalette, query: SearchQuery, context: SearchContext): boolean {
+  return query.terms.every((term) => term.matches(palette, context) !== term.negated);
+}
+
+/**
+ * Suggests completions for the token being typed at the end of the search text:
+ * filter names for a partial key (at least two letters), and values for `mode:`,
+ * `tag:`, `collection:`, `is:` and `similar:` (named colors), or examples for the other filters.
+ *
+ * @param text - The search text
+ * @param values - Keywords and collection names to suggest
+ * @returns The hints, empty when the last token is complete or plain text
+ */
+export function getSearchHints(text: string, values: { keywords: string[]; collections: string[] }): SearchHint[] {
+  const token = text.match(/-?(?:[a-z]+:)?(?:"[^"]*|[^\s"]*)$/i)?.[0] ?? "";
+  if (!token) return [];
+
+  const before = text.slice(0, text.length - token.length);
+  const negation = token.startsWith("-") ? "-" : "";
+  const body = token.slice(negation.length);
+  const filter = body.match(/^([a-z]+):(.*)$/i);
+
+  if (!filter) {
+    if (body.length < 2 || !/^[a-z]+$/i.test(body)) return [];
+    return SEARCH_FILTERS.filter(({ key }) => key.startsWith(body.toLowerCase())).map(({ key, description }) => ({
+      title: `${negation}${key}:`,
+      description,
+      completion: `${before}${negation}${key}:`,
+    }));
+  }
+
+  const key = filter[1].toLowerCase();
+  const typed = unquote(filter[2]).toLowerCase();
+  const definition = SEARCH_FILTERS.find((item) => item.key === key);
+  if (!definition) return [];
+
+  const suggestions: Record<string, string[]> = {
+    mode: ["light", "dark"],
+    tag: values.keywords,
+    collection: values.collections,
+    is: ["favorite"],
+    similar: Object.keys(CSS_NAMED_COLORS),
+  };
+  const candidates = suggestions[key];
+
+  if (!candidates) {
+    if (typed) return [];
+    return definition.examples.map((example) => ({
+      title: `${negation}${example}`,
+      description: definition.description,
+      completion: `${before}${negation}${example} `,
+    }));
+  }
+
+  return candidates
+    .filter((candidate) => candidate.toLowerCase().startsWith(typed) && candidate.toLowerCase() !== typed)
+    .slice(0, 8)
+    .map((candidate) => ({
+      title: `${negation}${key}:${quote(candidate)}`,
+      description: definition.description,
+      completion: `${before}${negation}${key}:${quote(candidate)} `,
+    }));
+}
@@ -1,12 +1,44 @@
-import { Action, ActionPanel, Detail, Icon, Keyboard, LaunchType, List, showToast, Toast } from "@raycast/api";
+import {
+  Action,
+  ActionPanel,
+  Clipboard,
+  Detail,
+  Icon,
+  Keyboard,
+  LaunchProps,
+  LaunchType,
+  List,
+  showHUD,
+  showToast,
+  Toast,
+} from "@raycast/api";
 import { useLocalStorage } from "@raycast/utils";
 import { useEffect, useState } from "react";
+import { ColorScaleList } from "./components/ColorScaleList";
+import { ExportPaletteForm } from "./components/ExportPaletteForm";
+import { PaletteColorsList } from "./components/PaletteColorsList";
+import { PaletteDetail } from "./components/PaletteDetail";
+import { QuarantineSection } from "./components/QuarantineSection";
+import { useCollections } from "./hooks/useCollections";
+import { usePalettes } from "./hooks/usePalettes";
+import { useTrash } from "./hooks/useTrash";
 import SaveColorPalettesCommand from "./save-color-palettes";
-import { StoredPalette } from "./types";
+import TrashCommand from "./trash-color-palettes";
+import { StoredPalette, ViewPalettesLaunchContext } from "./types";
+import { findPaletteCollection, getCollectionIcon } from "./utils/collections";
+import { ColorMatch, parseColorSearch, rankPalettesBySimilarity, SIMILARITY_TOLERANCES } from "./utils/colorSearch";
+import { hasAccessiblePair } from "./utils/contrast";
+import { createCoolorsUrl } from "./utils/coolors";
+import { EXPORT_FORMATS, ExportFormat, exportPalette } from "./utils/exportPalette";
 import { formatDate } from "./utils/formatDate";
+import { createColorFormFields } from "./utils/formHelpers";
+import { createModeVariant } from "./utils/modeVariant";
+import { getColorRoleTitle, getColorValues, getNormalizedColors, getPaletteColorName } from "./utils/paletteColors";
+import { STORAGE_KEYS } from "./utils/paletteStorage";
+import { isSortOrder, recordPaletteCopy, SORT_ORDERS, sortPalettes } from "./utils/paletteUsage";
+import { getSearchHints, matchesSearchQuery, parseSearchQuery, SEARCH_FILTERS, SearchQuery } from "./utils/searchQuery";
 
 //>>> TODO ELISA add command that calls the Convert Colors command from color picker
-//>> TODO command that uses the name colors from the color picker extension to name the colors
 
 /**
  * Creates a markdown overview for palette preview in list view.
@@ -20,100 +52,172 @@ const createMdOverview = (palette: StoredPalette) => {
 };
 
 /**
- * Creates detailed markdown view with color swatches and metadata.
+ * Creates the help page of the search syntax.
  */
-const createMdDetails = (palette: StoredPalette) => {
-  // Create visual color swatches using inline HTML for better presentation
-  const colorSwatches = palette.colors
-    .map(
-      (color) =>
-        `<div style="width: 50px; height: 50px; background-color: ${color}; display: inline-block; margin-right: 10px; border-radius: 4px;"></div>`,
-    )
-    .join("");
-
-  // Create numbered list of color codes for easy copying
-  const colorList = palette.colors.map((color, index) => `${index + 1}. \`${color}\``).join("\n");
+const createMdSearchSyntax = () => `
+# Search Syntax
 
-  return `
-# ${palette.name}
-
-**Mode:** ${palette.mode === "dark" ? "Dark Color Palette" : "Light Color Palette"}
-
-**Description:** ${palette.description}
+Type free text to search names, descriptions, keywords, color names and notes, and combine it with filters.
+Every term must match. Prefix a term with \`-\` to exclude what it matches, and quote values with spaces.
 
-**Keywords:** ${palette.keywords && palette.keywords.length > 0 ? palette.keywords.join(", ") : "No keywords"}
+| Filter | Finds |
+| --- | --- |
+${SEARCH_FILTERS.map(({ examples, description }) => `| ${examples.map((example) => `\`${example}\``).join(" ")} | ${description} |`).join("\n")}
 
-**Created:** ${formatDate(palette.createdAt)}
+Dates can be a year, a month or a day. Numbers and dates accept \`>\`, \`>=\`, \`<\` and \`<=\`.
 
-**Colors (${palette.colors.length}):**
+Type or paste a hex or functional color (\`#008080\`, \`rgb(0 128 128)\`) to rank palettes by how close their
+closest color looks (CIEDE2000). For named colors use \`similar:teal\`. A color search is the whole query: it
+cannot be combined with other terms.
 
-${colorList}
----
-
-### Color Palette
-${colorSwatches}
-    `;
-};
+**Example:** \`ocean mode:dark -tag:neon colors:>4 created:>2025-01\`
+`;
 
 /**
  * Color Palette Viewer Command
  *
  * Main interface for viewing, managing, and organizing saved color palettes.
  * Provides search, filtering, and CRUD operations with keyboard shortcuts.
+ *
+ * @param props.launchContext - Optional context; `selectPaletteId` selects a palette when the list opens
  */
-export default function Command() {
+export default function Command(props: LaunchProps<{ launchContext: ViewPalettesLaunchContext }>) {
   // === Data Management ===
   /** Local storage hook for palette persistence with loading state management */
   const {
-    value: colorPalettes,
-    setValue: setColorPalettes,
+    palettes: colorPalettes,
+    setPalettes: setColorPalettes,
+    quarantined,
+    discardQuarantined,
     isLoading,
-  } = useLocalStorage<StoredPalette[]>("color-palettes-list", []);
+  } = usePalettes();
+
+  /** Trash operations: deleted palettes can be restored until they are purged */
+  const { deletePalette: moveToTrash, restoreFromTrash } = useTrash();
+
+  /** Collections used to group palettes by project or brand */
+  const { collections } = useCollections();
 
   // === Search and Filter State ===
   /** Current search query for filtering palettes */
   const [searchText, setSearchText] = useState("");
 
+  /**
+   * Value of the search bar dropdown: "all", "accessible" (palettes with a readable
+   * text/background pair), "unassigned" or "collection:<id>"
+   */
+  const [paletteFilter, setPaletteFilter] = useState("all");
+
+  /** Sort order of the list (favorites always come first), kept between launches */
+  const { value: storedSortOrder, setValue: setSortOrder } = useLocalStorage<string>(
+    STORAGE_KEYS.sortOrder,
+    SORT_ORDERS[0].order,
+  );
+  const sortOrder = isSortOrder(storedSortOrder) ? storedSortOrder : SORT_ORDERS[0].order;
+
+  /** Currently selected palette, controlled so that linked variants can be jumped to */
+  const [selectedPaletteId, setSelectedPaletteId] = useState<string | undefined>(props.launchContext?.selectPaletteId);
+
   /** Filtered list of palettes based on search criteria */
   const [filteredList, setFilteredList] = useState<StoredPalette[]>([]);
 
+  /** Explanation of why the search query is invalid, if it is */
+  const [queryError, setQueryError] = useState<string | undefined>(undefined);
+
+  /** Maximum ΔE00 of a color search, from the search bar dropdown ("0" = no limit) */
+  const [tolerance, setTolerance] = useState(SIMILARITY_TOLERANCES[1].value);
+
+  /** Closest color of each listed palette during a color search, by palette ID */
+  const [colorMatches, setColorMatches] = useState<Map<string, ColorMatch>>(new Map());
+
+  /** Color searched for when the search text is a color, ranking palettes by similarity */
+  const searchedColor = parseColorSearch(searchText);
+
   // === Search Effect ===
   /**
-   * Filters palettes based on search text across multiple fields.
-   * Searches through palette name, description, and keywords for matches.
+   * Filters palettes with the search query: free text (matched against palette name, description,
+   * keywords, color names and color notes) combined with filters such as `mode:dark` or `colors:>5`.
+   * Optionally keeps only palettes with at least one WCAG AA text/background pair,
+   * or only the palettes of one collection. The result is sorted with favorites first.
+   * A color search instead ranks every palette by the distance of its closest color.
    */
   useEffect(() => {
+    if (searchedColor) {
+      const ranked = rankPalettesBySimilarity(colorPalettes ?? [], searchedColor, Number(tolerance));
+      setQueryError(undefined);
+      setColorMatches(new Map(ranked.map(({ palette, match }) => [palette.id, match])));
+      setFilteredList(ranked.map(({ palette }) => palette));
+      return;
+    }
+    setColorMatches(new Map());
+
+    let query: SearchQuery;
+    try {
+      query = parseSearchQuery(searchText);
+      setQueryError(undefined);
+    } catch (error) {
+      setQueryError(error instanceof Error ? error.message : String(error));
+      setFilteredList([]);
+      return;
+    }
+
     if (colorPalettes && colorPalettes.length > 0) {
       const filtered = colorPalettes.filter((item) => {
-        if (!searchText) return true;
-
-        const searchLower = searchText.toLowerCase();
-        return (
-          (item.keywords && item.keywords.some((keyword) => keyword.toLowerCase().includes(searchLower))) ||
-          item.name.toLowerCase().includes(searchLower) ||
-          item.description.toLowerCase().includes(searchLower)
-        );
+        if (paletteFilter === "accessible" && !hasAccessiblePair(getNormalizedColors(item))) return false;
+        if (paletteFilter === "unassigned" && findPaletteCollection(item, collections ?? [])) return false;
+        if (paletteFilter.startsWith("collection:") && `collection:${item.collectionId}` !== paletteFilter) {
+          return false;
+        }
+        return matchesSearchQuery(item, query, { collections: collections ?? [] });
       });
-      setFilteredList(filtered);
+      setFilteredList(sortPalettes(filtered, sortOrder));
     } else {
       setFilteredList([]);
     }
-  }, [searchText, colorPalettes]);
+  }, [searchText, colorPalettes, paletteFilter, collections, sortOrder, tolerance]);
+
+  /** Completions for the filter being typed at the end of the search text */
+  const searchHints = getSearchHints(searchText, {
+    keywords: [...new Set((colorPalettes ?? []).flatMap((palette) => palette.keywords))],
+    collections: (collections ?? []).map((collection) => collection.name),
+  });
 
-  useEffect(() => {}, [searchText]);
+  /** Opens the search syntax help */
+  const searchSyntaxAction = (
+    <Action.Push
+      title="Show Search Syntax"
+      icon={Icon.QuestionMarkCircle}
+      target={<Detail navigationTitle="Search Syntax" markdown={createMdSearchSyntax()} />}
+      shortcut={{ modifiers: ["cmd"], key: "/" }}
+    />
+  );
 
   /**
-   * Deletes a palette from local storage with user feedback.
+   * Moves a palette to the trash with user feedback and an Undo action.
    */
   const deletePalette = async (paletteId: string) => {
     try {
-      const updatedPalettes = colorPalettes ? colorPalettes.filter((palette) => palette.id !== paletteId) : [];
-      await setColorPalettes(updatedPalettes);
+      await moveToTrash(paletteId);
 
       showToast({
         style: Toast.Style.Success,
-        title: "Deleted",
+        title: "Moved to Trash",
         message: "Color palette deleted successfully",
+        primaryAction: {
+          title: "Undo",
+          shortcut: { modifiers: ["cmd"], key: "z" },
+          onAction: async (toast) => {
+            try {
+              await restoreFromTrash([paletteId]);
+              await toast.hide();
+            } catch (error) {
+              console.error("Error restoring palette:", error);
+              toast.style = Toast.Style.Failure;
+              toast.title = "Error";
+              toast.message = "Failed to restore color palette";
+            }
+          },
+        },
       });
     } catch (error) {
       console.error("Error deleting palette:", error);
@@ -125,6 +229,122 @@ export default function Command() {
     }
   };
 
+  /**
+   * Creates the opposite-mode variant of a palette, links both palettes and selects the new one.
+   */
+  const generateModeVariant = async (palette: StoredPalette) => {
+    try {
+      const variant = createModeVariant(palette);
+      const updatedPalettes = [
+        variant,
+        ...(colorPalettes ?? []).map((item) =>
+          item.id === palette.id ? { ...item, linkedPaletteId: variant.id } : item,
+        ),
+      ];
+      await setColorPalettes(updatedPalettes);
+      jumpToPalette(variant.id);
+
+      showToast({
+        style: Toast.Style.Success,
+        title: "Success!",
+        message: `${variant.name} ${variant.mode} color palette created`,
+      });
+    } catch (error) {
+      console.error("Error generating palette variant:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to generate the palette variant",
+      });
+    }
+  };
+
+  /**
+   * Pins a palette to the top of the list, or unpins it.
+   */
+  const toggleFavorite = async (palette: StoredPalette) => {
+    try {
+      await setColorPalettes(
+        (colorPalettes ?? []).map(({ favorite, ...item }) => {
+          const isFavorite = item.id === palette.id ? !palette.favorite : favorite;
+          return isFavorite ? { ...item, favorite: true } : item;
+        }),
+      );
+
+      showToast({
+        style: Toast.Style.Success,
+        title: palette.favorite ? "Removed from Favorites" : "Added to Favorites",
+        message: palette.name,
+      });
+    } catch (error) {
+      console.error("Error updating favorite:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to update the favorite",
+      });
+    }
+  };
+
+  /**
+   * Records that a palette, or one of its colors, was copied.
+   * Failures are only logged: the copy itself already succeeded.
+   */
+  const recordCopy = async (palette: StoredPalette, colorIndex?: number) => {
+    try {
+      await setColorPalettes(
+        (colorPalettes ?? []).map((item) => (item.id === palette.id ? recordPaletteCopy(item, colorIndex) : item)),
+      );
+    } catch (error) {
+      console.error("Error recording palette usage:", error);
+    }
+  };
+
+  /**
+   * Copies a palette as code. The code is only generated when the action runs.
+   */
+  const copyExport = async (palette: StoredPalette, format: ExportFormat) => {
+    await Clipboard.copy(exportPalette(palette, format));
+    await showHUD("Copied to Clipboard");
+    await recordCopy(palette);
+  };
+
+  /**
+   * Assigns a palette to a collection, or removes it from its collection.
+   */
+  const moveToCollection = async (palette: StoredPalette, collectionId?: string) => {
+    try {
+      await setColorPalettes(
+        (colorPalettes ?? []).map(({ collectionId: currentId, ...item }) => {
+          const assignedId = item.id === palette.id ? collectionId : currentId;
+          return assignedId ? { ...item, collectionId: assignedId } : item;
+        }),
+      );
+
+      const collection = collections?.find((item) => item.id === collectionId);
+      showToast({
+        style: Toast.Style.Success,
+        title: collection ? "Moved to Collection" : "Removed from Collection",
+        message: collection ? `${palette.name} → ${collection.name}` : palette.name,
+      });
+    } catch (error) {
+      console.error("Error moving palette:", error);
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Error",
+        message: "Failed to move the color palette",
+      });
+    }
+  };
+
+  /**
+   * Selects a palette in the list, clearing the search so that it is visible.
+   */
+  const jumpToPalette = (paletteId: string) => {
+    setSearchText("");
+    setSelectedPaletteId(paletteId);
+  };
+
   /**
    * Converts stored palette into form data for editing or duplication.
    */
@@ -134,12 +354,11 @@ export default function Command() {
       description: palette.description,
       mode: palette.mode,
       keywords: palette.keywords || [],
+      collection: palette.collectionId ?? "",
     };
 
-    // Add color fields
-    palette.colors.forEach((color, index) => {
-      formData[`color${index + 1}`] = color;
-    });
+    // Add color fields with their name, role and note
+    Object.assign(formData, createColorFormFields(palette.colors));
 
     return formData;
   };
@@ -148,118 +367,373 @@ export default function Command() {
     <List
       isLoading={isLoading}
       filtering={false}
+      searchText={searchText}
       onSearchTextChange={setSearchText}
+      selectedItemId={selectedPaletteId}
+      onSelectionChange={(id) => setSelectedPaletteId(id ?? undefined)}
       navigationTitle="Search Color Palettes"
-      searchBarPlaceholder="Search your Color Palette..."
+      searchBarPlaceholder="Search, or filter with mode:dark tag:ocean colors:>5 has:#ff5733..."
       isShowingDetail={true}
+      searchBarAccessory={
+        searchedColor ? (
+          <List.Dropdown id="similarity-tolerance" tooltip="Color Tolerance" storeValue onChange={setTolerance}>
+            {SIMILARITY_TOLERANCES.map(({ value, title }) => (
+              <List.Dropdown.Item key={value} value={value} title={title} icon={Icon.EyeDropper} />
+            ))}
+          </List.Dropdown>
+        ) : (
+          <List.Dropdown tooltip="Filter by Collection or Accessibility" storeValue onChange={setPaletteFilter}>
+            <List.Dropdown.Section>
+              <List.Dropdown.Item value="all" title="All Palettes" icon={Icon.AppWindowGrid3x3} />
+              <List.Dropdown.Item value="accessible" title="Accessible Text Pairs Only" icon={Icon.Eye} />
+            </List.Dropdown.Section>
+            {collections && collections.length > 0 && (
+              <List.Dropdown.Section title="Collections">
+                {collections.map((collection) => (
+                  <List.Dropdown.Item
+                    key={collection.id}
+                    value={`collection:${collection.id}`}
+                    title={collection.name}
+                    icon={getCollectionIcon(collection)}
+                  />
+                ))}
+                <List.Dropdown.Item value="unassigned" title="Unassigned" icon={Icon.Tray} />
+              </List.Dropdown.Section>
+            )}
+          </List.Dropdown>
+        )
+      }
     >
-      {filteredList.length === 0 ? (
+      {searchHints.length > 0 && (
+        <List.Section title="Search Filters">
+          {searchHints.map((hint) => (
+            <List.Item
+              key={hint.title}
+              id={`hint:${hint.title}`}
+              icon={Icon.MagnifyingGlass}
+              title={hint.title}
+              subtitle={hint.description}
+              detail={<List.Item.Detail markdown={createMdSearchSyntax()} />}
+              actions={
+                <ActionPanel>
+                  <Action title="Use Filter" icon={Icon.Checkmark} onAction={() => setSearchText(hint.completion)} />
+                  {searchSyntaxAction}
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      )}
+      {queryError ? (
+        <List.EmptyView
+          icon={Icon.ExclamationMark}
+          title="Invalid Search Query"
+          description={queryError}
+          actions={<ActionPanel>{searchSyntaxAction}</ActionPanel>}
+        />
+      ) : searchedColor && filteredList.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.EyeDropper}
+          title="No Similar Palettes"
+          description="No palette has a color close enough to the searched color. Choose a higher tolerance in the dropdown."
+          actions={<ActionPanel>{searchSyntaxAction}</ActionPanel>}
+        />
+      ) : filteredList.length === 0 && (colorPalettes ?? []).length === 0 ? (
         <List.EmptyView
           icon={Icon.Ellipsis}
           title="No Color Palettes Found"
           description="Create your first color palette using the save command"
         />
+      ) : filteredList.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.MagnifyingGlass}
+          title="No palettes match this search"
+          description="Change the search text or the filter in the dropdown"
+          actions={<ActionPanel>{searchSyntaxAction}</ActionPanel>}
+        />
       ) : (
-        filteredList.map((palette) => (
-          <List.Item
-            key={palette.id}
-            icon={{
-              source: palette.mode === "dark" ? Icon.Moon : Icon.Sun,
-              tintColor: palette.mode === "dark" ? "#000000" : "#ffffff",
-            }}
-            title={palette.name}
-            keywords={palette.keywords || []}
-            detail={
-              <List.Item.Detail
-                markdown={createMdOverview(palette)}
-                metadata={
-                  <List.Item.Detail.Metadata>
-                    <List.Item.Detail.Metadata.Label
-                      icon={palette.mode === "dark" ? Icon.Moon : Icon.Sun}
-                      title="Mode"
-                      text={palette.mode.charAt(0).toUpperCase() + palette.mode.slice(1) + " Color Palette"}
-                    />
-                    <List.Item.Detail.Metadata.TagList title="Keywords">
-                      {palette.keywords &&
-                        palette.keywords.length > 0 &&
-                        palette.keywords.map((keyword, idx) => (
-                          <List.Item.Detail.Metadata.TagList.Item key={idx} text={keyword} />
-                        ))}
-                    </List.Item.Detail.Metadata.TagList>
-                    <List.Item.Detail.Metadata.Separator />
-                    {palette.colors.map((color, idx) => (
-                      <List.Item.Detail.Metadata.TagList key={idx} title={`Color ${idx + 1}`}>
-                        <List.Item.Detail.Metadata.TagList.Item text={color} color={color} />
+        filteredList.map((palette) => {
+          const linkedPalette = colorPalettes?.find((item) => item.id === palette.linkedPaletteId);
+          const oppositeMode = palette.mode === "dark" ? "Light" : "Dark";
+          const collection = findPaletteCollection(palette, collections ?? []);
+          const colorMatch = colorMatches.get(palette.id);
+          const matchedColor = colorMatch && palette.colors[colorMatch.colorIndex];
+
+          return (
+            <List.Item
+              key={palette.id}
+              id={palette.id}
+              icon={{
+                source: palette.mode === "dark" ? Icon.Moon : Icon.Sun,
+                tintColor: palette.mode === "dark" ? "#000000" : "#ffffff",
+              }}
+              title={palette.name}
+              keywords={palette.keywords || []}
+              accessories={[
+                ...(palette.favorite ? [{ icon: Icon.Star, tooltip: "Favorite" }] : []),
+                ...(colorMatch && matchedColor
+                  ? [
+                      {
+                        icon: { source: Icon.CircleFilled, tintColor: matchedColor.normalized },
+                        text: `ΔE ${colorMatch.distance.toFixed(1)}`,
+                        tooltip: "Distance of the closest color",
+                      },
+                    ]
+                  : []),
+              ]}
+              detail={
+                <List.Item.Detail
+                  markdown={createMdOverview(palette)}
+                  metadata={
+                    <List.Item.Detail.Metadata>
+                      <List.Item.Detail.Metadata.Label
+                        icon={palette.mode === "dark" ? Icon.Moon : Icon.Sun}
+                        title="Mode"
+                        text={palette.mode.charAt(0).toUpperCase() + palette.mode.slice(1) + " Color Palette"}
+                      />
+                      {collection && (
+                        <List.Item.Detail.Metadata.Label
+                          icon={getCollectionIcon(collection)}
+                          title="Collection"
+                          text={collection.name}
+                        />
+                      )}
+                      {palette.usage && (
+                        <List.Item.Detail.Metadata.Label
+                          icon={Icon.BarChart}
+                          title="Usage"
+                          text={`Copied ${palette.usage.copyCount} time${palette.usage.copyCount === 1 ? "" : "s"}, last on ${formatDate(palette.usage.lastCopiedAt)}`}
+                        />
+                      )}
+                      <List.Item.Detail.Metadata.TagList title="Keywords">
+                        {palette.keywords &&
+                          palette.keywords.length > 0 &&
+                          palette.keywords.map((keyword, idx) => (
+                            <List.Item.Detail.Metadata.TagList.Item key={idx} text={keyword} />
+                          ))}
                       </List.Item.Detail.Metadata.TagList>
-                    ))}
-                  </List.Item.Detail.Metadata>
-                }
-              />
-            }
-            actions={
-              <ActionPanel>
-                {/* 
-                //>> TODO ELISA add Action
-                // instead of showing the details, open a link to coolors to see the palette
-                // you have to convert all the colors to hex format automatically
-
-                TODO add action that converts the colors (using the Color Picker)
-                */}
-                <Action.Push title="Show Palette Details" target={<Detail markdown={createMdDetails(palette)} />} />
-                <Action.CopyToClipboard
-                  title="Copy All Colors"
-                  content={palette.colors.join(";")}
-                  shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
+                      {linkedPalette && (
+                        <List.Item.Detail.Metadata.Label
+                          icon={linkedPalette.mode === "dark" ? Icon.Moon : Icon.Sun}
+                          title={`${oppositeMode} Variant`}
+                          text={linkedPalette.name}
+                        />
+                      )}
+                      {colorMatch && matchedColor && (
+                        <List.Item.Detail.Metadata.Label
+                          icon={{ source: Icon.CircleFilled, tintColor: matchedColor.normalized }}
+                          title="Closest Color"
+                          text={`${colorMatch.colorIndex + 1}. ${matchedColor.value} · ΔE ${colorMatch.distance.toFixed(1)}`}
+                        />
+                      )}
+                      <List.Item.Detail.Metadata.Separator />
+                      {palette.colors.map((color, idx) => (
+                        <List.Item.Detail.Metadata.TagList
+                          key={idx}
+                          title={`${idx + 1}. ${getPaletteColorName(color)}${color.role ? ` · ${getColorRoleTitle(color.role)}` : ""}${color.usage ? ` · Copied ${color.usage.copyCount}×` : ""}${idx === colorMatch?.colorIndex ? " · ◉ Closest Match" : ""}`}
+                        >
+                          <List.Item.Detail.Metadata.TagList.Item text={color.value} color={color.normalized} />
+                        </List.Item.Detail.Metadata.TagList>
+                      ))}
+                    </List.Item.Detail.Metadata>
+                  }
                 />
-                {palette.colors.map((color, idx) => (
+              }
+              actions={
+                <ActionPanel>
+                  {/* TODO add action that converts the colors (using the Color Picker) */}
+                  <Action.Push title="Show Palette Details" target={<PaletteDetail palette={palette} />} />
+                  <Action.OpenInBrowser
+                    title="Open in Coolors"
+                    url={createCoolorsUrl(getNormalizedColors(palette), palette.mode)}
+                    shortcut={Keyboard.Shortcut.Common.Open}
+                  />
                   <Action.CopyToClipboard
-                    key={idx}
-                    title={`Copy Color ${idx + 1}`}
-                    content={palette.colors[idx]}
-                    shortcut={{ modifiers: ["cmd", "shift"], key: String(idx + 1) as Keyboard.KeyEquivalent }}
+                    title="Copy All Colors"
+                    content={getColorValues(palette).join(";")}
+                    onCopy={() => recordCopy(palette)}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "a" }}
                   />
-                ))}
-                {/* 
-                //>>> TODO ELISA check that the two commands below work as expected
-                */}
-
-                {/* NB edit palette actually creates a new copy of an existing palette: fix this */}
-                <Action.Push
-                  title="Edit Palette (Create Copy)"
-                  target={
-                    <SaveColorPalettesCommand
-                      launchType={LaunchType.UserInitiated}
-                      arguments={{}}
-                      draftValues={createEditableFormData(palette, true)}
+                  <ActionPanel.Submenu
+                    title="Copy as…"
+                    icon={Icon.Code}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "e" }}
+                  >
+                    {EXPORT_FORMATS.map(({ format, title }) => (
+                      <Action
+                        key={format}
+                        title={title}
+                        icon={Icon.Clipboard}
+                        onAction={() => copyExport(palette, format)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <Action.Push
+                    title="Export Palette…"
+                    target={<ExportPaletteForm palette={palette} />}
+                    icon={Icon.Upload}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+                  />
+                  {palette.colors.map((color, idx) => (
+                    <Action.CopyToClipboard
+                      key={idx}
+                      title={`Copy Color ${idx + 1} (${getPaletteColorName(color)})`}
+                      content={color.value}
+                      onCopy={() => recordCopy(palette, idx)}
+                      shortcut={
+                        idx < 9
+                          ? { modifiers: ["cmd", "shift"], key: String(idx + 1) as Keyboard.KeyEquivalent }
+                          : undefined
+                      }
                     />
-                  }
-                  icon={Icon.Pencil}
-                  shortcut={{ modifiers: ["cmd"], key: "e" }}
-                />
-                <Action.Push
-                  title="Duplicate Palette"
-                  target={
-                    <SaveColorPalettesCommand
-                      launchType={LaunchType.UserInitiated}
-                      arguments={{}}
-                      draftValues={createEditableFormData(palette, true)}
+                  ))}
+                  <Action
+                    title={palette.favorite ? "Remove from Favorites" : "Add to Favorites"}
+                    icon={palette.favorite ? Icon.StarDisabled : Icon.Star}
+                    onAction={() => toggleFavorite(palette)}
+                    shortcut={Keyboard.Shortcut.Common.Pin}
+                  />
+                  <ActionPanel.Submenu
+                    title="Change Sort Order"
+                    icon={Icon.ArrowDown}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "s" }}
+                  >
+                    {SORT_ORDERS.map(({ order, title, icon }) => (
+                      <Action
+                        key={order}
+                        title={title}
+                        icon={order === sortOrder ? Icon.CheckCircle : icon}
+                        onAction={() => setSortOrder(order)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <ActionPanel.Submenu
+                    title="Find Palettes with Similar Color"
+                    icon={Icon.EyeDropper}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+                  >
+                    {palette.colors.map((color, idx) => (
+                      <Action
+                        key={idx}
+                        title={`${idx + 1}. ${getPaletteColorName(color)} (${color.normalized})`}
+                        icon={{ source: Icon.CircleFilled, tintColor: color.normalized }}
+                        onAction={() => setSearchText(color.normalized)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <Action.Push
+                    title="Reorder Colors"
+                    icon={Icon.List}
+                    target={<PaletteColorsList paletteId={palette.id} />}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "k" }}
+                  />
+                  <ActionPanel.Submenu
+                    title="Generate Tint & Shade Scale"
+                    icon={Icon.Swatch}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+                  >
+                    {getNormalizedColors(palette).map((color, idx) => (
+                      <Action.Push
+                        key={idx}
+                        title={`Color ${idx + 1} (${color})`}
+                        icon={{ source: Icon.CircleFilled, tintColor: color }}
+                        target={
+                          <ColorScaleList
+                            baseColor={color}
+                            paletteName={palette.name}
+                            mode={palette.mode}
+                            keywords={palette.keywords || []}
+                          />
+                        }
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                  {linkedPalette ? (
+                    <Action
+                      title={`Go to ${oppositeMode} Variant`}
+                      icon={Icon.ArrowRight}
+                      onAction={() => jumpToPalette(linkedPalette.id)}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
                     />
-                  }
-                  icon={Icon.Duplicate}
-                  shortcut={{ modifiers: ["cmd"], key: "d" }}
-                />
+                  ) : (
+                    <Action
+                      title={`Generate ${oppositeMode} Variant`}
+                      icon={palette.mode === "dark" ? Icon.Sun : Icon.Moon}
+                      onAction={() => generateModeVariant(palette)}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "v" }}
+                    />
+                  )}
+                  <Action.Push
+                    title="Edit Palette"
+                    target={
+                      <SaveColorPalettesCommand
+                        launchType={LaunchType.UserInitiated}
+                        arguments={{}}
+                        draftValues={createEditableFormData(palette)}
+                        launchContext={{ editPaletteId: palette.id }}
+                      />
+                    }
+                    icon={Icon.Pencil}
+                    shortcut={Keyboard.Shortcut.Common.Edit}
+                  />
+                  <Action.Push
+                    title="Duplicate Palette"
+                    target={
+                      <SaveColorPalettesCommand
+                        launchType={LaunchType.UserInitiated}
+                        arguments={{}}
+                        draftValues={createEditableFormData(palette, true)}
+                      />
+                    }
+                    icon={Icon.Duplicate}
+                    shortcut={{ modifiers: ["cmd"], key: "d" }}
+                  />
+                  {collections && collections.length > 0 && (
+                    <ActionPanel.Submenu
+                      title="Move to Collection"
+                      icon={Icon.Folder}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+                    >
+                      {collections.map((item) => (
+                        <Action
+                          key={item.id}
+                          title={item.name}
+                          icon={getCollectionIcon(item)}
+                          onAction={() => moveToCollection(palette, item.id)}
+                        />
+                      ))}
+                      {collection && (
+                        <Action
+                          title="Remove from Collection"
+                          icon={Icon.XMarkCircle}
+                          onAction={() => moveToCollection(palette)}
+                        />
+                      )}
+                    </ActionPanel.Submenu>
+                  )}
 
-                <Action
-                  title="Delete Palette"
-                  onAction={() => deletePalette(palette.id)}
-                  style={Action.Style.Destructive}
-                  shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
-                />
-              </ActionPanel>
-            }
-          />
-        ))
+                  {searchSyntaxAction}
+                  <Action.Push
+                    title="Open Trash"
+                    icon={Icon.Trash}
+                    target={<TrashCommand />}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "t" }}
+                  />
+                  <Action
+                    title="Delete Palette"
+                    icon={Icon.Trash}
+                    onAction={() => deletePalette(palette.id)}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "d" }}
+                  />
+                </ActionPanel>
+              }
+            />
+          );
+        })
       )}
+      {/* Records that failed validation on load are reported instead of breaking the list */}
+      {!searchText && <QuarantineSection records={quarantined} onDiscard={discardQuarantined} />}
     </List>
   );
 }